@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { CommandItem, CommandsProvider, NewCommandItem } from './extension';
+import { CommandFileSystemProvider, USER_SCOPE } from './commandFs';
+
+/**
+ * A saved command as seen by other extensions.
+ */
+export interface SavedCommand extends CommandItem {
+    workspaceFolder?: vscode.Uri; // Set for workspace commands, unset for the user's own
+}
+
+/**
+ * The API returned by `activate`, for other extensions:
+ * `vscode.extensions.getExtension<CommandsViewerApi>('cmdvwr.commands-viewer')?.exports`.
+ */
+export interface CommandsViewerApi {
+    /** Fires whenever commands are added, changed or removed, by anyone. */
+    readonly onDidChange: vscode.Event<void>;
+
+    /** All saved commands, workspace commands first. */
+    list(): SavedCommand[];
+
+    get(id: string): SavedCommand | undefined;
+
+    /**
+     * Saves a new command. It gets a new ID, which is returned.
+     * @param workspaceFolder Adds the command to this folder's `.vscode/commands.json` instead of the user's commands.
+     */
+    add(command: NewCommandItem, workspaceFolder?: vscode.Uri): Promise<SavedCommand>;
+
+    /** Changes some fields of a command. */
+    update(id: string, changes: Partial<NewCommandItem>): Promise<SavedCommand>;
+
+    /** Removes a command. The user can restore it from "Recently Deleted" in the view. */
+    remove(id: string): Promise<void>;
+
+    /**
+     * Runs a command by ID or name, the same way as from the view: placeholders are asked for
+     * and the confirmation settings apply. Resolves once a terminal run was started, a background run
+     * or sequence finished, or the user cancelled.
+     */
+    run(idOrName: string): Promise<void>;
+}
+
+/**
+ * Builds the public API on top of the file system provider, so every change goes through
+ * the same validation, storage and change events as edits in the view.
+ */
+export function createApi(fsProvider: CommandFileSystemProvider, commandsProvider: CommandsProvider): CommandsViewerApi {
+    const toSaved = (item: CommandItem, scopeId: string): SavedCommand => {
+        const workspaceFolder = fsProvider.getScopes().find(scope => scope.id === scopeId)?.workspaceFolder?.uri;
+        return { ...item, workspaceFolder };
+    };
+
+    // Throws for unknown IDs, since callers can't see the tree
+    const find = (id: string): { item: CommandItem; scopeId: string } => {
+        for (const scope of fsProvider.getScopes()) {
+            const item = fsProvider.getCommandById(id, scope.id);
+            if (item) {
+                return { item, scopeId: scope.id };
+            }
+        }
+        throw new Error(`No saved command with the ID "${id}".`);
+    };
+
+    return {
+        onDidChange: (listener, thisArgs?, disposables?) => fsProvider.onDidChangeFile(() => listener.call(thisArgs), undefined, disposables),
+
+        list: () => fsProvider.getScopes().flatMap(scope => fsProvider.getAllCommandItems(scope.id).map(item => toSaved(item, scope.id))),
+
+        get: id => {
+            try {
+                const { item, scopeId } = find(id);
+                return toSaved(item, scopeId);
+            } catch {
+                return undefined;
+            }
+        },
+
+        add: async (command, workspaceFolder) => {
+            if (typeof command?.command !== 'string') {
+                throw new Error('A command needs a "command" string.');
+            }
+            const scopeId = workspaceFolder
+                ? fsProvider.getScopes().find(scope => scope.workspaceFolder?.uri.toString() === workspaceFolder.toString())?.id
+                : USER_SCOPE;
+            if (scopeId === undefined) {
+                throw new Error(`"${workspaceFolder}" is not a folder of the open workspace.`);
+            }
+            return toSaved(await fsProvider.addCommandItem(command, scopeId), scopeId);
+        },
+
+        update: async (id, changes) => {
+            const { scopeId } = find(id);
+            return toSaved(await fsProvider.updateCommandItem(id, scopeId, changes), scopeId);
+        },
+
+        remove: async id => {
+            const { scopeId } = find(id);
+            await fsProvider.delete(fsProvider.getCommandUri(id, scopeId)!, { recursive: false });
+        },
+
+        run: async idOrName => {
+            const isId = fsProvider.getScopes().some(scope => fsProvider.getCommandById(idOrName, scope.id));
+            const isName = fsProvider.getScopes().some(scope => fsProvider.getAllCommandItems(scope.id).some(item => item.name === idOrName));
+            if (!isId && !isName) {
+                throw new Error(`No saved command with the ID or name "${idOrName}".`);
+            }
+            await commandsProvider.runByReference(isId ? { id: idOrName } : { name: idOrName });
+        }
+    };
+}
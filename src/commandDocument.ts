@@ -0,0 +1,224 @@
+import { CommandPlatform, NewCommandItem, RunMode } from './extension';
+import { formatArguments, parseArguments } from './runSettings';
+import { PLATFORMS } from './scripts';
+
+/**
+ * The fields of a command that can be edited in its document.
+ */
+export type CommandDocument = Pick<NewCommandItem, 'name' | 'description' | 'tags' | 'cwd' | 'env' | 'shell' | 'shellArgs' | 'runMode' | 'requiresConfirmation' | 'interpreter' | 'platforms' | 'command'>;
+
+/**
+ * A parsed command document, with the line the command body starts on (1-based).
+ */
+export interface ParsedCommandDocument {
+    fields: CommandDocument;
+    hasFrontMatter: boolean; // False for plain text, which only sets the command body
+    bodyLine: number;
+    variantLines: { [platform in CommandPlatform]?: number }; // Where the body of each platform variant starts
+}
+
+/**
+ * A problem in a command document, reported at a 1-based line number.
+ */
+export class CommandDocumentError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'CommandDocumentError';
+    }
+}
+
+const FRONT_MATTER_DELIMITER = '---';
+const FIELD_NAMES = ['name', 'description', 'tags', 'cwd', 'env', 'shell', 'shellArgs', 'runMode', 'requiresConfirmation', 'interpreter'] as const;
+type FieldName = typeof FIELD_NAMES[number];
+const RUN_MODES: { [mode in RunMode]: true } = { activeTerminal: true, dedicatedTerminal: true, newTerminal: true, background: true };
+// Starts the body of a platform variant, e.g. "--- win32 ---", or "--- win32: pwsh ---" with its own interpreter.
+// Only known platforms at the start of a line count, so other lines like this (e.g. in a heredoc) stay in the body.
+const VARIANT_HEADER = new RegExp(`^---\\s*(${PLATFORMS.join('|')})\\s*(?::\\s*(.*?))?\\s*---$`);
+
+/**
+ * Serves a command as a document: its settings as front matter between `---` lines, then the command itself,
+ * then a section for each platform variant. Name, description, tags, working directory and environment are
+ * always listed so they can be filled in.
+ */
+export function formatCommandDocument(item: CommandDocument): string {
+    const field = (key: string, value: string | undefined) => value ? `${key}: ${value}` : `${key}:`;
+    const lines = [
+        FRONT_MATTER_DELIMITER,
+        field('name', formatValue(item.name)),
+        field('description', formatValue(item.description)),
+        field('tags', item.tags?.join(', ')),
+        field('cwd', formatValue(item.cwd))
+    ];
+    if (item.shell) {
+        lines.push(field('shell', formatValue(item.shell)));
+    }
+    if (item.shellArgs && item.shellArgs.length > 0) {
+        lines.push(field('shellArgs', formatArguments(item.shellArgs)));
+    }
+    if (item.runMode) {
+        lines.push(field('runMode', item.runMode));
+    }
+    if (item.requiresConfirmation !== undefined) {
+        lines.push(field('requiresConfirmation', String(item.requiresConfirmation)));
+    }
+    if (item.interpreter) {
+        lines.push(field('interpreter', item.interpreter));
+    }
+    lines.push('env:');
+    for (const [name, value] of Object.entries(item.env ?? {})) {
+        lines.push(`  ${field(name, formatValue(value))}`);
+    }
+    lines.push(FRONT_MATTER_DELIMITER, item.command);
+    for (const platform of PLATFORMS) {
+        const variant = item.platforms?.[platform];
+        if (variant) {
+            lines.push(`--- ${variant.interpreter ? `${platform}: ${variant.interpreter}` : platform} ---`, variant.command);
+        }
+    }
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Parses a command document. Text without front matter is taken as the command alone.
+ * @throws CommandDocumentError if the front matter is malformed.
+ */
+export function parseCommandDocument(text: string): ParsedCommandDocument {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    if (lines[0].trim() !== FRONT_MATTER_DELIMITER) {
+        return { fields: { command: trimBody(lines.join('\n')) }, hasFrontMatter: false, bodyLine: 1, variantLines: {} };
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === FRONT_MATTER_DELIMITER);
+    if (end === -1) {
+        throw new CommandDocumentError(`The front matter is not closed. Add a "${FRONT_MATTER_DELIMITER}" line before the command.`, 1);
+    }
+
+    const { command, platforms, variantLines } = parseBody(lines, end + 1);
+    const fields: CommandDocument = { command, platforms };
+    const seen = new Set<FieldName>();
+    let inEnv = false;
+    for (let index = 1; index < end; index++) {
+        const line = lines[index];
+        const lineNumber = index + 1;
+        if (line.trim() === '' || line.trim().startsWith('#')) {
+            continue; // Blank lines and comments
+        }
+
+        const match = /^(\s*)([^:\s]+)\s*:(.*)$/.exec(line);
+        if (!match) {
+            throw new CommandDocumentError(`Expected "field: value", found "${line.trim()}".`, lineNumber);
+        }
+        const [, indent, key, rawValue] = match;
+
+        // Indented lines are the variables of the `env:` block
+        if (indent !== '') {
+            if (!inEnv) {
+                throw new CommandDocumentError('Only environment variables below "env:" can be indented.', lineNumber);
+            }
+            if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+                throw new CommandDocumentError(`"${key}" is not a valid environment variable name.`, lineNumber);
+            }
+            fields.env = { ...fields.env, [key]: parseValue(rawValue, lineNumber) ?? '' };
+            continue;
+        }
+
+        inEnv = false;
+        if (!(FIELD_NAMES as readonly string[]).includes(key)) {
+            throw new CommandDocumentError(`Unknown field "${key}". Expected one of: ${FIELD_NAMES.join(', ')}.`, lineNumber);
+        }
+        const field = key as FieldName;
+        if (seen.has(field)) {
+            throw new CommandDocumentError(`"${field}" is set more than once.`, lineNumber);
+        }
+        seen.add(field);
+
+        const value = parseValue(rawValue, lineNumber);
+        switch (field) {
+            case 'env':
+                if (value !== undefined) {
+                    throw new CommandDocumentError('List environment variables on the lines below "env:", indented, as "NAME: value".', lineNumber);
+                }
+                inEnv = true;
+                break;
+            case 'tags': {
+                const tags = (value ?? '').replace(/^\[(.*)\]$/, '$1').split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+                fields.tags = tags.length > 0 ? Array.from(new Set(tags)) : undefined;
+                break;
+            }
+            case 'shellArgs': {
+                const args = parseArguments(value ?? '');
+                fields.shellArgs = args.length > 0 ? args : undefined;
+                break;
+            }
+            case 'runMode':
+                if (value !== undefined && !(value in RUN_MODES)) {
+                    throw new CommandDocumentError(`Unknown run mode "${value}". Expected one of: ${Object.keys(RUN_MODES).join(', ')}.`, lineNumber);
+                }
+                fields.runMode = value as RunMode | undefined;
+                break;
+            case 'requiresConfirmation':
+                if (value !== undefined && value !== 'true' && value !== 'false') {
+                    throw new CommandDocumentError(`"requiresConfirmation" must be true or false, found "${value}".`, lineNumber);
+                }
+                fields.requiresConfirmation = value === undefined ? undefined : value === 'true';
+                break;
+            default:
+                fields[field] = value;
+        }
+    }
+
+    return { fields, hasFrontMatter: true, bodyLine: end + 2, variantLines };
+}
+
+// Splits the body at variant headers: the command comes first, then the variants
+function parseBody(lines: string[], start: number): Pick<CommandDocument, 'command' | 'platforms'> & Pick<ParsedCommandDocument, 'variantLines'> {
+    const headers = lines
+        .map((line, index) => ({ match: VARIANT_HEADER.exec(line.trimEnd()), index }))
+        .filter(header => header.index >= start && header.match !== null);
+    const command = trimBody(lines.slice(start, headers[0]?.index ?? lines.length).join('\n'));
+    if (headers.length === 0) {
+        return { command, variantLines: {} };
+    }
+
+    const platforms: CommandDocument['platforms'] = {};
+    const variantLines: ParsedCommandDocument['variantLines'] = {};
+    headers.forEach(({ match, index }, position) => {
+        const platform = match![1] as CommandPlatform;
+        if (platforms[platform]) {
+            throw new CommandDocumentError(`There is more than one variant for "${platform}".`, index + 1);
+        }
+        const body = trimBody(lines.slice(index + 1, headers[position + 1]?.index ?? lines.length).join('\n'));
+        if (body.trim() === '') {
+            throw new CommandDocumentError(`The variant for "${platform}" is empty. Write it below this line, or remove the line.`, index + 1);
+        }
+        platforms[platform] = match![2] ? { command: body, interpreter: match![2] } : { command: body };
+        variantLines[platform] = index + 2;
+    });
+    return { command, platforms, variantLines };
+}
+
+// Quotes values that would otherwise lose whitespace or be misread
+function formatValue(value: string | undefined): string {
+    if (value === undefined) {
+        return '';
+    }
+    return value !== value.trim() || value.startsWith('"') || value.includes('\n') ? JSON.stringify(value) : value;
+}
+
+// Returns the trimmed value, unquoting "..." strings; empty values are undefined
+function parseValue(rawValue: string, lineNumber: number): string | undefined {
+    const value = rawValue.trim();
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            throw new CommandDocumentError(`Invalid quoted value ${value}.`, lineNumber);
+        }
+    }
+    return value === '' ? undefined : value;
+}
+
+// Editors often add a final newline; it is not part of the command
+function trimBody(body: string): string {
+    return body.replace(/\n+$/, '');
+}
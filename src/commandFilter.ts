@@ -0,0 +1,43 @@
+import { CommandItem } from './extension';
+import { RunStats } from './commandUsage';
+
+/**
+ * The order of commands within a folder:
+ * - created: the order they were added in
+ * - name: alphabetical by display name
+ * - lastRun: most recently run first
+ * - runCount: most often run first
+ */
+export type SortOrder = 'created' | 'name' | 'lastRun' | 'runCount';
+
+/**
+ * Checks a command against a filter text. Every word of the filter has to match, case-insensitively:
+ * `#tag` (or `tag:name`) matches the command's tags; any other word matches the name, command, description or tags.
+ */
+export function matchesFilter(item: CommandItem, filter: string): boolean {
+    const tags = (item.tags ?? []).map(tag => tag.toLowerCase());
+    const text = [item.name ?? '', item.command, item.description ?? '', ...tags].join('\n').toLowerCase();
+    return filter.toLowerCase().split(/\s+/).filter(word => word !== '').every(word => {
+        const tag = /^(?:#|tag:)(.+)$/.exec(word);
+        return tag ? tags.some(candidate => candidate.startsWith(tag[1])) : text.includes(word);
+    });
+}
+
+/**
+ * Sorts commands for display. Commands that were never run come last (by name) when sorting by runs.
+ * @param getRunStats Looks up how often a command was run.
+ */
+export function sortCommands<T extends CommandItem>(items: T[], order: SortOrder, getRunStats: (commandId: string) => RunStats | undefined): T[] {
+    const byName = (a: T, b: T) => (a.name || a.command).localeCompare(b.name || b.command);
+    const sorted = [...items];
+    switch (order) {
+        case 'name':
+            return sorted.sort(byName);
+        case 'lastRun':
+            return sorted.sort((a, b) => (getRunStats(b.id)?.lastRunAt ?? 0) - (getRunStats(a.id)?.lastRunAt ?? 0) || byName(a, b));
+        case 'runCount':
+            return sorted.sort((a, b) => (getRunStats(b.id)?.runCount ?? 0) - (getRunStats(a.id)?.runCount ?? 0) || byName(a, b));
+        default:
+            return sorted;
+    }
+}
@@ -1,44 +1,259 @@
 import * as vscode from 'vscode';
-import { CommandItem } from './extension'; // Import CommandItem interface
+import * as crypto from 'crypto';
+import { CommandItem, NewCommandItem } from './extension'; // Import CommandItem interface
+import { CommandDocumentError, formatCommandDocument, parseCommandDocument, ParsedCommandDocument } from './commandDocument';
+import { CommandChange, CommandHistory, CommandVersion, DeletedCommand } from './commandHistory';
+import { CommandStore, CURRENT_SCHEMA_VERSION, GlobalStateCommandStore, migrateStoredCommands, StoredCommands, WorkspaceFileCommandStore } from './commandStore';
 
 const COMMAND_FILE_SCHEME = 'commandfile'; // Our custom URI scheme
 
-export class CommandFileSystemProvider implements vscode.FileSystemProvider {
+// URI authority of the user's own commands (e.g., "commandfile:/My Command.cmd").
+// Workspace scopes use "commandfile://workspace-<folder index>/My Command.cmd".
+export const USER_SCOPE = '';
+
+/**
+ * Public description of a command scope, for the tree view.
+ */
+export interface CommandScopeInfo {
+    readonly id: string;                               // URI authority of the scope
+    readonly label: string;                            // e.g. "User", "Workspace" or the folder name
+    readonly workspaceFolder?: vscode.WorkspaceFolder; // Set for workspace scopes
+    readonly loadError?: string;                       // Set when the stored data could not be read
+}
+
+// The in-memory state of one scope
+interface CommandScope extends CommandScopeInfo {
+    readonly store: CommandStore;
+    // Key: command ID, Value: CommandItem
+    commands: Map<string, CommandItem>;
+    // Key: path relative to the scope root (e.g., "Kubernetes/My Command.cmd"), Value: command ID.
+    // Derived from the commands on every change; see rebuildPaths.
+    paths: Map<string, string>;
+    // Key: command ID, Value: path (the reverse of `paths`)
+    fileNames: Map<string, string>;
+    // All folder paths (e.g., "Kubernetes", "Kubernetes/Logs"), including empty ones
+    folders: Set<string>;
+    // Key: command ID, Value: the command as last loaded or saved, as JSON. Saves are compared against it.
+    saved: Map<string, string>;
+    loadError?: string;
+}
+
+export class CommandFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
     private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
-
-    // A simple map to store our commands.
-    // Key: filename (e.g., "My Command.cmd"), Value: CommandItem
-    private _commands: Map<string, CommandItem> = new Map<string, CommandItem>();
+    // Fires with the commands each save added, changed or removed; not for changes loaded from disk
+    private _onDidChangeCommands = new vscode.EventEmitter<CommandChange[]>();
+    readonly onDidChangeCommands: vscode.Event<CommandChange[]> = this._onDidChangeCommands.event;
+    // Fires when a command's document is saved, i.e. the user wrote its content themselves
+    private _onDidWriteCommand = new vscode.EventEmitter<{ item: CommandItem; scopeId: string }>();
+    readonly onDidWriteCommand: vscode.Event<{ item: CommandItem; scopeId: string }> = this._onDidWriteCommand.event;
+
+    // Scopes by URI authority; the user scope always exists
+    private _scopes: Map<string, CommandScope> = new Map<string, CommandScope>();
+    private _disposables: vscode.Disposable[] = [];
     private _context: vscode.ExtensionContext; // Store context to access globalState
+    private _history: CommandHistory; // Earlier versions and the trash
 
     constructor(context: vscode.ExtensionContext) {
         this._context = context;
+        this._history = new CommandHistory(context.globalState);
         this.loadCommandsFromGlobalState(); // Load existing commands on initialization
+        this.loadWorkspaceScopes();
+        this._disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadWorkspaceScopes()));
     }
 
     private loadCommandsFromGlobalState() {
-        const storedCommands: CommandItem[] = this._context.globalState.get('customCommands', []);
-        this._commands.clear();
-        storedCommands.forEach(cmd => {
-            // Reconstruct filename based on the same logic used for creation/display
-            const fileName = this.generateFileName(cmd);
-            this._commands.set(fileName, cmd);
+        const store = new GlobalStateCommandStore(this._context.globalState);
+        const scope = this.createScope({ id: USER_SCOPE, label: 'User' }, store);
+        const { migrated } = this.applyStoredCommands(scope, store.load());
+        if (migrated) {
+            // Persist the generated IDs right away so they stay stable
+            this.saveScope(scope).catch(error => console.error('Failed to migrate commands:', error));
+        }
+    }
+
+    // (Re)creates one scope per workspace folder, backed by its .vscode/commands.json
+    private async loadWorkspaceScopes() {
+        for (const scope of this._scopes.values()) {
+            if (scope.id !== USER_SCOPE) {
+                scope.store.dispose();
+                this._scopes.delete(scope.id);
+            }
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        const scopes = workspaceFolders.map(folder => this.createScope({
+            id: `workspace-${folder.index}`,
+            label: workspaceFolders.length > 1 ? folder.name : 'Workspace',
+            workspaceFolder: folder
+        }, new WorkspaceFileCommandStore(folder)));
+
+        this.fireRootChanged();
+        await Promise.all(scopes.map(scope => this.reloadScope(scope)));
+    }
+
+    private createScope(info: CommandScopeInfo, store: CommandStore): CommandScope {
+        const scope: CommandScope = {
+            ...info,
+            store,
+            commands: new Map<string, CommandItem>(),
+            paths: new Map<string, string>(),
+            fileNames: new Map<string, string>(),
+            folders: new Set<string>(),
+            saved: new Map<string, string>()
+        };
+        this._scopes.set(scope.id, scope);
+        store.onDidChange(() => this.reloadScope(scope));
+        return scope;
+    }
+
+    private async reloadScope(scope: CommandScope) {
+        try {
+            // Checked-in files are migrated in memory only, and written back on the next change
+            this.applyStoredCommands(scope, await scope.store.load());
+            scope.loadError = undefined;
+        } catch (error: any) {
+            // Keep the scope visible but read-only, so a broken file is never overwritten
+            scope.commands.clear();
+            scope.folders.clear();
+            scope.saved.clear();
+            this.rebuildPaths(scope);
+            scope.loadError = error.message;
+            console.error(`Failed to load commands for "${scope.label}":`, error);
+        }
+        this.fireRootChanged();
+    }
+
+    private applyStoredCommands(scope: CommandScope, stored: StoredCommands): { migrated: boolean } {
+        const { data, migrated } = migrateStoredCommands(stored);
+        scope.commands.clear();
+        scope.folders.clear();
+        data.folders.forEach(folder => this.addFolderPath(scope, normalizeFolderPath(folder)));
+        data.commands.forEach(cmd => {
+            scope.commands.set(cmd.id, cmd);
+            this.addFolderPath(scope, normalizeFolderPath(cmd.folder));
         });
+        this.rebuildPaths(scope);
+        scope.saved = snapshot(scope);
+        return { migrated };
+    }
+
+    private async saveScope(scope: CommandScope) {
+        this.rebuildPaths(scope);
+        const saved = snapshot(scope);
+        const changes = diffSnapshots(scope.id, scope.saved, saved);
+        const commandsArray: CommandItem[] = Array.from(scope.commands.values());
+        await scope.store.save({ version: CURRENT_SCHEMA_VERSION, commands: commandsArray, folders: Array.from(scope.folders).sort() });
+        scope.saved = saved;
+        if (changes.length > 0) {
+            await this.recordHistory(changes);
+            this._onDidChangeCommands.fire(changes);
+        }
+        this.fireRootChanged();
     }
 
-    private async saveCommandsToGlobalState() {
-        const commandsArray: CommandItem[] = Array.from(this._commands.values());
-        await this._context.globalState.update('customCommands', commandsArray);
-        // Fire a generic refresh for the TreeDataProvider
+    // Keeps the previous content of edited commands, and moves removed ones to the trash.
+    // A command that left this scope but exists in another one was moved, not removed.
+    private async recordHistory(changes: CommandChange[]) {
+        const exists = (id: string) => Array.from(this._scopes.values()).some(scope => scope.commands.has(id));
+        const replaced = changes
+            .filter(change => change.before && change.after && contentOf(change.before) !== contentOf(change.after))
+            .map(change => change.before!);
+        const deleted: DeletedCommand[] = changes
+            .filter(change => change.before && !change.after && !exists(change.before.id))
+            .map(change => ({ item: change.before!, location: this.getLocation(change.scopeId), deletedAt: Date.now() }));
+        const present = changes.filter(change => change.after).map(change => change.after!.id);
+        try {
+            await this._history.record(replaced, deleted, present);
+        } catch (error) {
+            console.error('Failed to record command history:', error); // The change itself was saved
+        }
+    }
+
+    // Identifies a scope across sessions, since workspace folder indexes change
+    private getLocation(scopeId: string): string {
+        return this._scopes.get(scopeId)?.workspaceFolder?.uri.toString() ?? USER_SCOPE;
+    }
+
+    // Fire a generic refresh for the TreeDataProvider
+    private fireRootChanged() {
         this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: vscode.Uri.parse(`${COMMAND_FILE_SCHEME}:/`) }]);
     }
 
-    // Helper to generate a consistent filename for a CommandItem
-    private generateFileName(item: CommandItem): string {
-        let baseName = item.name && item.name.trim() !== '' ? item.name : item.command.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '_');
+    // Resolves the scope a URI belongs to
+    private getScope(uri: vscode.Uri): CommandScope {
+        const scope = this._scopes.get(uri.authority);
+        if (!scope) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return scope;
+    }
+
+    // Like getScope, but refuses to modify a scope whose data failed to load
+    private getWritableScope(uri: vscode.Uri): CommandScope {
+        if (getVersionNumber(uri) !== undefined) {
+            throw vscode.FileSystemError.NoPermissions('Earlier versions of a command are read-only');
+        }
+        const scope = this.getScope(uri);
+        if (scope.loadError) {
+            throw vscode.FileSystemError.NoPermissions(`Commands for "${scope.label}" could not be loaded: ${scope.loadError}`);
+        }
+        return scope;
+    }
+
+    // Resolves a command by the `id` in the URI query if present, otherwise by its path
+    private resolveCommand(scope: CommandScope, uri: vscode.Uri): CommandItem | undefined {
+        const id = getCommandId(uri) ?? scope.paths.get(toRelativePath(uri));
+        return id === undefined ? undefined : scope.commands.get(id);
+    }
+
+    // Resolves an earlier version of a command by the `id` and `version` in the URI query.
+    // Versions outlive the command, so removed commands can still be compared.
+    private resolveVersion(uri: vscode.Uri): CommandVersion {
+        const id = getCommandId(uri);
+        const version = id === undefined ? undefined : this._history.getVersion(id, getVersionNumber(uri)!);
+        if (!version) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return version;
+    }
+
+    // Regenerates the filename of every command. Names are not unique, so clashes within
+    // a folder get a "-N" suffix, handed out in creation order to keep them stable.
+    private rebuildPaths(scope: CommandScope) {
+        scope.paths.clear();
+        scope.fileNames.clear();
+        const items = Array.from(scope.commands.values()).sort((a, b) => a.createdAt - b.createdAt);
+        for (const item of items) {
+            const folder = normalizeFolderPath(item.folder);
+            const baseName = this.generateBaseName(item);
+            let fileName = joinPath(folder, `${baseName}.cmd`);
+            let counter = 1;
+            while (scope.paths.has(fileName) || scope.folders.has(fileName)) {
+                fileName = joinPath(folder, `${baseName}-${counter}.cmd`);
+                counter++;
+            }
+            scope.paths.set(fileName, item.id);
+            scope.fileNames.set(item.id, fileName);
+        }
+    }
+
+    private generateBaseName(item: NewCommandItem): string {
+        let baseName = item.name && item.name.trim() !== '' ? item.name.replace(/\//g, '_') : item.command.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '_');
         if (baseName.length === 0) baseName = 'untitled_command'; // Fallback for empty command string
-        return `${baseName}.cmd`;
+        return baseName;
+    }
+
+    // Registers a folder and all of its ancestors
+    private addFolderPath(scope: CommandScope, folder: string) {
+        while (folder !== '' && !scope.folders.has(folder)) {
+            scope.folders.add(folder);
+            folder = parentPath(folder);
+        }
+    }
+
+    private isFolder(scope: CommandScope, relativePath: string): boolean {
+        return relativePath === '' || scope.folders.has(relativePath);
     }
 
     // --- FileSystemProvider methods ---
@@ -48,52 +263,84 @@ export class CommandFileSystemProvider implements vscode.FileSystemProvider {
     }
 
     stat(uri: vscode.Uri): vscode.FileStat | Thenable<vscode.FileStat> {
-        if (uri.path === '/') { // Root directory
+        const scope = this.getScope(uri);
+        if (getVersionNumber(uri) !== undefined) {
+            const version = this.resolveVersion(uri);
             return {
-                type: vscode.FileType.Directory,
-                ctime: Date.now(),
-                mtime: Date.now(),
-                size: 0
+                type: vscode.FileType.File,
+                ctime: version.item.createdAt,
+                mtime: version.savedAt,
+                size: Buffer.byteLength(formatCommandDocument(version.item), 'utf8')
             };
         }
-
-        const fileName = uri.path.substring(1); // Remove leading '/'
-        if (this._commands.has(fileName)) {
-            const item = this._commands.get(fileName)!;
-            const contentBuffer = Buffer.from(item.command, 'utf8');
+        const relativePath = toRelativePath(uri);
+        const item = this.resolveCommand(scope, uri);
+        if (item) {
+            const contentBuffer = Buffer.from(formatCommandDocument(item), 'utf8');
             return {
                 type: vscode.FileType.File,
-                ctime: Date.now(),
-                mtime: Date.now(),
+                ctime: item.createdAt,
+                mtime: item.modifiedAt,
                 size: contentBuffer.byteLength
             };
         }
+
+        if (this.isFolder(scope, relativePath)) { // Root directory or a folder
+            // A folder is as old as its oldest command and as recent as its latest change
+            const contents = this.getDescendants(scope, relativePath).commands.map(id => scope.commands.get(id)!);
+            return {
+                type: vscode.FileType.Directory,
+                ctime: contents.length > 0 ? Math.min(...contents.map(cmd => cmd.createdAt)) : 0,
+                mtime: contents.length > 0 ? Math.max(...contents.map(cmd => cmd.modifiedAt)) : 0,
+                size: 0
+            };
+        }
         throw vscode.FileSystemError.FileNotFound(uri);
     }
 
     readDirectory(uri: vscode.Uri): [string, vscode.FileType][] | Thenable<[string, vscode.FileType][]> {
-        if (uri.path === '/') {
-            return Array.from(this._commands.keys()).map(key => [key, vscode.FileType.File]);
+        const scope = this.getScope(uri);
+        const relativePath = toRelativePath(uri);
+        if (this.isFolder(scope, relativePath)) {
+            const contents = this.getFolderContents(scope.id, relativePath);
+            return [
+                ...contents.folders.map(folder => [baseName(folder), vscode.FileType.Directory] as [string, vscode.FileType]),
+                ...contents.commands.map(([fileName]) => [baseName(fileName), vscode.FileType.File] as [string, vscode.FileType])
+            ];
+        }
+        if (this.resolveCommand(scope, uri)) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
         }
-        throw vscode.FileSystemError.FileNotADirectory(uri);
+        throw vscode.FileSystemError.FileNotFound(uri);
     }
 
     readFile(uri: vscode.Uri): Uint8Array | Thenable<Uint8Array> {
-        const fileName = uri.path.substring(1);
-        if (this._commands.has(fileName)) {
-            const item = this._commands.get(fileName)!;
-            return Buffer.from(item.command, 'utf8');
+        const scope = this.getScope(uri);
+        if (getVersionNumber(uri) !== undefined) {
+            return Buffer.from(formatCommandDocument(this.resolveVersion(uri).item), 'utf8');
+        }
+        const item = this.resolveCommand(scope, uri);
+        if (item) {
+            return Buffer.from(formatCommandDocument(item), 'utf8');
+        }
+        if (this.isFolder(scope, toRelativePath(uri))) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
         }
         throw vscode.FileSystemError.FileNotFound(uri);
     }
 
     async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean; }): Promise<void> {
-        const fileName = uri.path.substring(1);
-        const newCommandContent = Buffer.from(content).toString('utf8');
+        const scope = this.getWritableScope(uri);
+        const fileName = toRelativePath(uri);
+        const folder = parentPath(fileName);
+        const document = parseCommandDocument(Buffer.from(content).toString('utf8'));
 
         // Check if the command already exists
-        const existingCommand = this._commands.get(fileName);
+        const existingCommand = this.resolveCommand(scope, uri);
 
+        if (!existingCommand && this.isFolder(scope, fileName)) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
         if (!options.create && !existingCommand) {
             throw vscode.FileSystemError.FileNotFound(uri);
         }
@@ -101,28 +348,62 @@ export class CommandFileSystemProvider implements vscode.FileSystemProvider {
             throw vscode.FileSystemError.FileExists(uri);
         }
 
-        // Determine the command name based on the filename,
-        // prioritizing the name if it's not an auto-generated one.
-        let commandName: string | undefined = undefined;
-        const namePart = fileName.endsWith('.cmd') ? fileName.substring(0, fileName.length - 4) : fileName;
-        // If the filename looks like a user-provided name (not just a truncated command)
-        if (!namePart.match(/^[a-zA-Z0-9_]{1,20}$/) && !newCommandContent.startsWith(namePart)) { // Simple check to avoid setting truncated command as name
-             commandName = namePart;
-        } else if (existingCommand?.name) { // Preserve existing explicit name
-            commandName = existingCommand.name;
+        if (existingCommand) {
+            // Editing keeps the command's identity and location. Plain text only replaces the command itself,
+            // while front matter replaces every field it can show, so removing a line clears that setting.
+            const { fields } = validateDocument(document, existingCommand.kind);
+            const changes = document.hasFrontMatter
+                ? { name: fields.name, description: fields.description, tags: fields.tags, cwd: fields.cwd, env: fields.env,
+                    shell: fields.shell, shellArgs: fields.shellArgs, runMode: fields.runMode,
+                    requiresConfirmation: fields.requiresConfirmation, interpreter: fields.interpreter, platforms: fields.platforms,
+                    command: fields.command }
+                : { command: fields.command };
+            const updated: CommandItem = { ...existingCommand, ...changes, modifiedAt: Date.now() };
+            scope.commands.set(existingCommand.id, updated);
+            await this.saveScope(scope);
+            this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+            this._onDidWriteCommand.fire({ item: updated, scopeId: scope.id });
+            return;
         }
 
+        if (!this.isFolder(scope, folder)) {
+            throw vscode.FileSystemError.FileNotFound(toUri(folder, scope.id));
+        }
 
-        this._commands.set(fileName, { name: commandName, command: newCommandContent });
-        await this.saveCommandsToGlobalState();
-        this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        // The name comes from the front matter, or else from the filename the user chose
+        const { fields } = validateDocument(document);
+        const now = Date.now();
+        const item: CommandItem = {
+            ...fields,
+            id: generateCommandId(),
+            name: fields.name ?? (stripExtension(baseName(fileName)).trim() || undefined),
+            folder: folder || undefined,
+            createdAt: now,
+            modifiedAt: now
+        };
+        scope.commands.set(item.id, item);
+        await this.saveScope(scope);
+        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri }]);
+        this._onDidWriteCommand.fire({ item, scopeId: scope.id });
     }
 
     async delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
-        const fileName = uri.path.substring(1);
-        if (this._commands.has(fileName)) {
-            this._commands.delete(fileName);
-            await this.saveCommandsToGlobalState();
+        const scope = this.getWritableScope(uri);
+        const fileName = toRelativePath(uri);
+        const item = this.resolveCommand(scope, uri);
+        if (item) {
+            scope.commands.delete(item.id);
+            await this.saveScope(scope);
+            this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+        } else if (fileName !== '' && scope.folders.has(fileName)) {
+            const descendants = this.getDescendants(scope, fileName);
+            if (!options.recursive && (descendants.commands.length > 0 || descendants.folders.length > 0)) {
+                throw vscode.FileSystemError.NoPermissions(`Folder "${fileName}" is not empty`);
+            }
+            descendants.commands.forEach(id => scope.commands.delete(id));
+            descendants.folders.forEach(path => scope.folders.delete(path));
+            scope.folders.delete(fileName);
+            await this.saveScope(scope);
             this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
         } else {
             throw vscode.FileSystemError.FileNotFound(uri);
@@ -130,75 +411,422 @@ export class CommandFileSystemProvider implements vscode.FileSystemProvider {
     }
 
     async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
-        const oldFileName = oldUri.path.substring(1);
-        const newFileName = newUri.path.substring(1);
-
-        if (!this._commands.has(oldFileName)) {
+        const oldScope = this.getWritableScope(oldUri);
+        const newScope = this.getWritableScope(newUri);
+        const oldCommand = this.resolveCommand(oldScope, oldUri);
+        const oldFileName = oldCommand ? oldScope.fileNames.get(oldCommand.id)! : toRelativePath(oldUri);
+        const newFileName = toRelativePath(newUri);
+        const newFolder = parentPath(newFileName);
+
+        if (!oldCommand && oldFileName !== '' && oldScope.folders.has(oldFileName)) {
+            return this.renameFolder(oldUri, newUri, options);
+        }
+        if (!oldCommand) {
             throw vscode.FileSystemError.FileNotFound(oldUri);
         }
-        if (this._commands.has(newFileName) && !options.overwrite) {
+        if (this.isFolder(newScope, newFileName)) {
+            throw vscode.FileSystemError.FileIsADirectory(newUri);
+        }
+        const existingId = newScope.paths.get(newFileName);
+        const replacesOther = existingId !== undefined && !(newScope === oldScope && existingId === oldCommand.id);
+        if (replacesOther && !options.overwrite) {
             throw vscode.FileSystemError.FileExists(newUri);
         }
+        if (!this.isFolder(newScope, newFolder)) {
+            throw vscode.FileSystemError.FileNotFound(toUri(newFolder, newScope.id));
+        }
 
-        const oldCommand = this._commands.get(oldFileName)!;
-        let newCommandName: string | undefined = oldCommand.name; // Preserve old name by default
+        // Moving keeps the name; a new filename becomes the new name, exactly as typed
+        const newNamePart = stripExtension(baseName(newFileName));
+        let newCommandName = oldCommand.name;
+        if (newNamePart !== stripExtension(baseName(oldFileName))) {
+            if (newNamePart.trim() === '') {
+                throw vscode.FileSystemError.NoPermissions('A command name cannot be empty');
+            }
+            newCommandName = newNamePart.trim();
+        }
 
-        // If the new file name implies a different name, update it.
-        const newNamePart = newFileName.endsWith('.cmd') ? newFileName.substring(0, newFileName.length - 4) : newFileName;
-        const oldNamePart = oldFileName.endsWith('.cmd') ? oldFileName.substring(0, oldFileName.length - 4) : oldFileName;
+        if (replacesOther) {
+            newScope.commands.delete(existingId!);
+        }
+        oldScope.commands.delete(oldCommand.id);
+        newScope.commands.set(oldCommand.id, { ...oldCommand, name: newCommandName, folder: newFolder || undefined, modifiedAt: Date.now() });
 
-        if (newNamePart !== oldNamePart) {
-            // Only update name if the new name part is clearly a user-defined name
-            // (i.e., not just a truncated command string being implicitly used as filename)
-            if (!newNamePart.match(/^[a-zA-Z0-9_]{1,20}$/) && !oldCommand.command.startsWith(newNamePart)) {
-                 newCommandName = newNamePart; // Use the new file name as the command name
-            } else if (newNamePart.trim() === '') { // If renamed to empty, remove name
-                newCommandName = undefined;
-            }
+        await this.saveScope(oldScope);
+        if (newScope !== oldScope) {
+            await this.saveScope(newScope);
+        }
+        this._emitter.fire([
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+    }
+
+    // Moves a folder and everything inside it, possibly into another scope
+    private async renameFolder(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
+        const oldScope = this.getWritableScope(oldUri);
+        const newScope = this.getWritableScope(newUri);
+        const oldFolder = toRelativePath(oldUri);
+        const newFolder = toRelativePath(newUri);
+
+        if (newFolder === '' || (newScope === oldScope && (newFolder === oldFolder || newFolder.startsWith(`${oldFolder}/`)))) {
+            throw vscode.FileSystemError.NoPermissions(`Cannot move folder "${oldFolder}" into itself`);
+        }
+        if (newScope.paths.has(newFolder)) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+        if (newScope.folders.has(newFolder) && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+        if (!this.isFolder(newScope, parentPath(newFolder))) {
+            throw vscode.FileSystemError.FileNotFound(toUri(parentPath(newFolder), newScope.id));
         }
 
+        const descendants = this.getDescendants(oldScope, oldFolder);
+        const movePath = (path: string) => newFolder + path.substring(oldFolder.length);
+        const now = Date.now();
+
+        descendants.folders.forEach(path => {
+            oldScope.folders.delete(path);
+            newScope.folders.add(movePath(path));
+        });
+        oldScope.folders.delete(oldFolder);
+        newScope.folders.add(newFolder);
 
-        this._commands.delete(oldFileName);
-        this._commands.set(newFileName, { name: newCommandName, command: oldCommand.command });
+        for (const id of descendants.commands) {
+            const item = oldScope.commands.get(id)!;
+            oldScope.commands.delete(id);
+            newScope.commands.set(id, { ...item, folder: movePath(normalizeFolderPath(item.folder)), modifiedAt: now });
+        }
 
-        await this.saveCommandsToGlobalState();
+        await this.saveScope(oldScope);
+        if (newScope !== oldScope) {
+            await this.saveScope(newScope);
+        }
         this._emitter.fire([
             { type: vscode.FileChangeType.Deleted, uri: oldUri },
             { type: vscode.FileChangeType.Created, uri: newUri }
         ]);
     }
 
-    createDirectory(uri: vscode.Uri): void | Thenable<void> {
-        throw vscode.FileSystemError.NoPermissions('Directories not supported');
+    async copy(source: vscode.Uri, destination: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
+        const sourceScope = this.getScope(source);
+        const destinationScope = this.getWritableScope(destination);
+        const destinationFileName = toRelativePath(destination);
+        const destinationFolder = parentPath(destinationFileName);
+
+        const item = this.resolveCommand(sourceScope, source);
+        if (!item) {
+            throw this.isFolder(sourceScope, toRelativePath(source))
+                ? vscode.FileSystemError.FileIsADirectory(source)
+                : vscode.FileSystemError.FileNotFound(source);
+        }
+        if (this.isFolder(destinationScope, destinationFileName)) {
+            throw vscode.FileSystemError.FileIsADirectory(destination);
+        }
+        const existingId = destinationScope.paths.get(destinationFileName);
+        if (existingId !== undefined && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(destination);
+        }
+        if (!this.isFolder(destinationScope, destinationFolder)) {
+            throw vscode.FileSystemError.FileNotFound(toUri(destinationFolder, destinationScope.id));
+        }
+
+        // The copy is a new command with its own identity
+        const now = Date.now();
+        if (existingId !== undefined) {
+            destinationScope.commands.delete(existingId);
+        }
+        const copied: CommandItem = { ...item, id: generateCommandId(), folder: destinationFolder || undefined, createdAt: now, modifiedAt: now };
+        destinationScope.commands.set(copied.id, copied);
+        await this.saveScope(destinationScope);
+        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri: destination }]);
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        const scope = this.getWritableScope(uri);
+        const folder = toRelativePath(uri);
+        if (this.isFolder(scope, folder) || scope.paths.has(folder)) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        if (!this.isFolder(scope, parentPath(folder))) {
+            throw vscode.FileSystemError.FileNotFound(toUri(parentPath(folder), scope.id));
+        }
+
+        scope.folders.add(folder);
+        await this.saveScope(scope);
+        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri }]);
+    }
+
+    // Helper to create a folder and any missing parents in one go
+    async ensureFolder(folder: string, scopeId: string = USER_SCOPE): Promise<void> {
+        const scope = this.getWritableScope(toUri(folder, scopeId));
+        if (this.isFolder(scope, folder)) { return; }
+        this.addFolderPath(scope, folder);
+        await this.saveScope(scope);
+    }
+
+    // Helper to add a command programmatically (e.g., from addCommand, importCommand).
+    // The command always gets a new ID and fresh timestamps.
+    async addCommandItem(item: NewCommandItem, scopeId: string = USER_SCOPE): Promise<CommandItem> {
+        const scope = this.getWritableScope(toUri('', scopeId));
+        const folder = normalizeFolderPath(item.folder);
+        const now = Date.now();
+        const newItem: CommandItem = { ...item, id: generateCommandId(), folder: folder || undefined, createdAt: now, modifiedAt: now };
+
+        this.addFolderPath(scope, folder);
+        scope.commands.set(newItem.id, newItem);
+        await this.saveScope(scope);
+        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri: this.getCommandUri(newItem.id, scope.id)! }]);
+        return newItem;
+    }
+
+    // Helper to change some fields of a command, e.g. its run settings
+    async updateCommandItem(id: string, scopeId: string, changes: Partial<NewCommandItem>): Promise<CommandItem> {
+        const scope = this.getWritableScope(toUri('', scopeId));
+        const item = scope.commands.get(id);
+        if (!item) {
+            throw vscode.FileSystemError.FileNotFound(toUri('', scopeId, id));
+        }
+
+        const updated: CommandItem = { ...item, ...changes, id, modifiedAt: Date.now() };
+        scope.commands.set(id, updated);
+        await this.saveScope(scope);
+        this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: this.getCommandUri(id, scopeId)! }]);
+        return updated;
+    }
+
+    // Helper to put commands of a scope back into an earlier state, keeping their IDs (for undo and redo).
+    // Commands without an item are removed.
+    async restoreCommands(scopeId: string, states: { id: string; item?: CommandItem }[]): Promise<void> {
+        const scope = this.getWritableScope(toUri('', scopeId));
+        const removed = states
+            .filter(state => !state.item && scope.commands.has(state.id))
+            .map(state => this.getCommandUri(state.id, scopeId)!);
+        for (const { id, item } of states) {
+            if (item) {
+                this.addFolderPath(scope, normalizeFolderPath(item.folder));
+                scope.commands.set(id, item);
+            } else {
+                scope.commands.delete(id);
+            }
+        }
+        await this.saveScope(scope);
+        this._emitter.fire([
+            ...removed.map(uri => ({ type: vscode.FileChangeType.Deleted, uri })),
+            ...states.filter(state => state.item).map(state => ({ type: vscode.FileChangeType.Changed, uri: this.getCommandUri(state.id, scopeId)! }))
+        ]);
+    }
+
+    // Helper to list the earlier versions of a command, oldest first
+    getVersions(id: string): CommandVersion[] {
+        return this._history.getVersions(id);
+    }
+
+    // Helper to get the read-only URI of an earlier version, e.g. to compare it with the current one
+    getVersionUri(id: string, scopeId: string, version: number): vscode.Uri | undefined {
+        const fileName = this._scopes.get(scopeId)?.fileNames.get(id);
+        return fileName === undefined ? undefined : toUri(fileName, scopeId, id, version);
     }
 
-    // Helper to add a command programmatically (e.g., from addCommand, importCommand)
-    async addCommandItem(item: CommandItem): Promise<void> {
-        let fileName = this.generateFileName(item);
+    // Helper to list the removed commands that can be restored into an open scope, most recent first
+    getDeletedCommands(): (DeletedCommand & { scopeId: string })[] {
+        const scopes = Array.from(this._scopes.values());
+        return this._history.getDeleted().flatMap(entry => {
+            const scope = scopes.find(candidate => this.getLocation(candidate.id) === entry.location);
+            return scope ? [{ ...entry, scopeId: scope.id }] : [];
+        });
+    }
 
-        // Ensure unique filename if a duplicate exists
-        let uniqueFileName = fileName;
-        let counter = 1;
-        while (this._commands.has(uniqueFileName)) {
-            const baseName = item.name && item.name.trim() !== '' ? item.name : item.command.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '_');
-            uniqueFileName = `${baseName}-${counter}.cmd`;
-            counter++;
+    // Helper to put a removed command back where it was. It gets a new ID if the old one is in use again.
+    async restoreDeleted(id: string): Promise<{ item: CommandItem; scopeId: string }> {
+        const entry = this.getDeletedCommands().find(candidate => candidate.item.id === id);
+        if (!entry) {
+            throw new Error('The command is no longer in Recently Deleted.');
+        }
+        const scope = this.getWritableScope(toUri('', entry.scopeId));
+        const inUse = Array.from(this._scopes.values()).some(candidate => candidate.commands.has(id));
+        const item: CommandItem = inUse ? { ...entry.item, id: generateCommandId() } : entry.item;
+
+        this.addFolderPath(scope, normalizeFolderPath(item.folder));
+        scope.commands.set(item.id, item);
+        await this.saveScope(scope);
+        if (inUse) {
+            await this._history.purge([id]);
         }
+        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri: this.getCommandUri(item.id, scope.id)! }]);
+        return { item, scopeId: scope.id };
+    }
+
+    // Helper to remove commands from Recently Deleted for good
+    async purgeDeleted(ids: string[]): Promise<void> {
+        await this._history.purge(ids);
+        this.fireRootChanged();
+    }
+
+    // Helper to find the command an editor URI points to
+    getCommandByUri(uri: vscode.Uri): { item: CommandItem; scopeId: string } | undefined {
+        const scope = uri.scheme === COMMAND_FILE_SCHEME ? this._scopes.get(uri.authority) : undefined;
+        const item = scope ? this.resolveCommand(scope, uri) : undefined;
+        return item && scope ? { item, scopeId: scope.id } : undefined;
+    }
 
-        this._commands.set(uniqueFileName, item);
-        await this.saveCommandsToGlobalState();
-        this._emitter.fire([{ type: vscode.FileChangeType.Created, uri: vscode.Uri.parse(`${COMMAND_FILE_SCHEME}:/${uniqueFileName}`) }]);
+    // Helper to get a command by its ID
+    getCommandById(id: string, scopeId: string = USER_SCOPE): CommandItem | undefined {
+        return this._scopes.get(scopeId)?.commands.get(id);
     }
 
-    // Helper to get command by filename (from TreeDataProvider)
-    getCommandByFileName(fileName: string): CommandItem | undefined {
-        return this._commands.get(fileName);
+    // Helper to get the URI that opens a command; it carries the ID so it keeps working if the name changes
+    getCommandUri(id: string, scopeId: string = USER_SCOPE): vscode.Uri | undefined {
+        const fileName = this._scopes.get(scopeId)?.fileNames.get(id);
+        return fileName === undefined ? undefined : toUri(fileName, scopeId, id);
     }
 
-    // Helper to get all commands for TreeDataProvider and export
-    getAllCommandItems(): CommandItem[] {
-        return Array.from(this._commands.values());
+    // Helper to get all commands of a scope for TreeDataProvider and export
+    getAllCommandItems(scopeId: string = USER_SCOPE): CommandItem[] {
+        return Array.from(this._scopes.get(scopeId)?.commands.values() || []);
     }
+
+    // Helper to get all folder paths of a scope, sorted
+    getAllFolders(scopeId: string = USER_SCOPE): string[] {
+        return Array.from(this._scopes.get(scopeId)?.folders || []).sort();
+    }
+
+    // Helper to list the scopes, workspace folders first and the user scope last
+    getScopes(): CommandScopeInfo[] {
+        const scopes = Array.from(this._scopes.values())
+            .map(({ id, label, workspaceFolder, loadError }) => ({ id, label, workspaceFolder, loadError }));
+        return [
+            ...scopes.filter(scope => scope.id !== USER_SCOPE),
+            ...scopes.filter(scope => scope.id === USER_SCOPE)
+        ];
+    }
+
+    // Helper to list the direct children of a folder ("" for the root), with each command's filename
+    getFolderContents(scopeId: string, folder: string): { folders: string[]; commands: [string, CommandItem][] } {
+        const scope = this._scopes.get(scopeId);
+        if (!scope) {
+            return { folders: [], commands: [] };
+        }
+        const folders = Array.from(scope.folders)
+            .filter(path => parentPath(path) === folder)
+            .sort((a, b) => a.localeCompare(b));
+        const commands = Array.from(scope.commands.values())
+            .filter(item => normalizeFolderPath(item.folder) === folder)
+            .map(item => [scope.fileNames.get(item.id)!, item] as [string, CommandItem]);
+        return { folders, commands };
+    }
+
+    // Helper to list everything below a folder ("" for the root), at any depth.
+    // Commands are returned by ID, folders by path.
+    private getDescendants(scope: CommandScope, folder: string): { folders: string[]; commands: string[] } {
+        const isBelow = (path: string) => folder === '' || path === folder || path.startsWith(`${folder}/`);
+        return {
+            folders: Array.from(scope.folders).filter(path => path !== folder && isBelow(path)),
+            commands: Array.from(scope.commands.values())
+                .filter(item => isBelow(normalizeFolderPath(item.folder)))
+                .map(item => item.id)
+        };
+    }
+
+    dispose(): void {
+        this._scopes.forEach(scope => scope.store.dispose());
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._emitter.dispose();
+        this._onDidChangeCommands.dispose();
+        this._onDidWriteCommand.dispose();
+    }
+}
+
+export const commandFsScheme = COMMAND_FILE_SCHEME;
+
+// Turns "/a//b/" or undefined into "a/b" / ""
+export function normalizeFolderPath(folder: string | undefined): string {
+    return (folder || '').split('/').map(part => part.trim()).filter(part => part !== '').join('/');
+}
+
+// Builds the commandfile: URI of a path relative to a scope's root, optionally pinned to a command ID
+// and to one of its earlier versions
+export function toUri(relativePath: string, scopeId: string = USER_SCOPE, commandId?: string, version?: number): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: COMMAND_FILE_SCHEME,
+        authority: scopeId,
+        path: `/${relativePath}`,
+        query: commandId ? `id=${encodeURIComponent(commandId)}${version !== undefined ? `&version=${version}` : ''}` : ''
+    });
+}
+
+// Reads the command ID from a URI's query, if it has one
+export function getCommandId(uri: vscode.Uri): string | undefined {
+    return new URLSearchParams(uri.query).get('id') ?? undefined;
+}
+
+// Reads the version number from a URI's query, if it points to an earlier version
+export function getVersionNumber(uri: vscode.Uri): number | undefined {
+    const version = new URLSearchParams(uri.query).get('version');
+    return version === null ? undefined : Number(version);
+}
+
+// The commands of a scope as JSON, by ID
+function snapshot(scope: CommandScope): Map<string, string> {
+    return new Map(Array.from(scope.commands, ([id, item]) => [id, JSON.stringify(item)]));
 }
 
-export const commandFsScheme = COMMAND_FILE_SCHEME;
\ No newline at end of file
+// The commands added, changed or removed between two snapshots of a scope
+function diffSnapshots(scopeId: string, before: Map<string, string>, after: Map<string, string>): CommandChange[] {
+    const changes: CommandChange[] = [];
+    after.forEach((json, id) => {
+        const previous = before.get(id);
+        if (previous !== json) {
+            changes.push({ scopeId, before: previous === undefined ? undefined : JSON.parse(previous), after: JSON.parse(json) });
+        }
+    });
+    before.forEach((json, id) => {
+        if (!after.has(id)) {
+            changes.push({ scopeId, before: JSON.parse(json) });
+        }
+    });
+    return changes;
+}
+
+// What a version covers: everything but where the command is and when it was saved
+function contentOf(item: CommandItem): string {
+    const { folder, modifiedAt, ...content } = item;
+    return JSON.stringify(content);
+}
+
+function generateCommandId(): string {
+    return crypto.randomUUID();
+}
+
+function stripExtension(fileName: string): string {
+    return fileName.endsWith('.cmd') ? fileName.substring(0, fileName.length - 4) : fileName;
+}
+
+// Checks the parts of a document that depend on the kind of entry: commands need a body (or platform variants), sequences have none
+function validateDocument(document: ParsedCommandDocument, kind?: CommandItem['kind']): ParsedCommandDocument {
+    if (kind === 'sequence' && (document.fields.command.trim() !== '' || document.fields.platforms)) {
+        throw new CommandDocumentError('A sequence has no command text. Use "Edit Sequence..." to change its steps.', document.bodyLine);
+    }
+    if (kind !== 'sequence' && document.fields.command.trim() === '' && !document.fields.platforms) {
+        throw new CommandDocumentError('The command is empty. Write it below the front matter.', document.bodyLine);
+    }
+    return document;
+}
+
+function toRelativePath(uri: vscode.Uri): string {
+    return uri.path.replace(/^\/+/, '').replace(/\/+$/, ''); // Remove leading and trailing '/'
+}
+
+function parentPath(relativePath: string): string {
+    const index = relativePath.lastIndexOf('/');
+    return index < 0 ? '' : relativePath.substring(0, index);
+}
+
+function baseName(relativePath: string): string {
+    return relativePath.substring(relativePath.lastIndexOf('/') + 1);
+}
+
+function joinPath(folder: string, name: string): string {
+    return folder === '' ? name : `${folder}/${name}`;
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { CommandItem } from './extension';
+
+const VERSIONS_KEY = 'commandVersions'; // globalState key
+const DELETED_KEY = 'deletedCommands';  // globalState key
+const MAX_VERSIONS = 20;   // Per command
+const MAX_DELETED = 50;
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * A change to one command, found when its scope is saved.
+ */
+export interface CommandChange {
+    scopeId: string;
+    before?: CommandItem; // Unset for new commands
+    after?: CommandItem;  // Unset for removed commands
+}
+
+/**
+ * An earlier state of a command.
+ */
+export interface CommandVersion {
+    version: number; // Counts up from 1 for each command
+    savedAt: number; // When this state was replaced, in milliseconds since the epoch
+    item: CommandItem;
+}
+
+/**
+ * A removed command, kept until it is restored or the trash is emptied.
+ */
+export interface DeletedCommand {
+    item: CommandItem;
+    location: string; // "" for the user's commands, otherwise the URI of the workspace folder
+    deletedAt: number;
+}
+
+/**
+ * Persists earlier versions of commands and the trash in global state.
+ * Workspace commands are included, so the history of `.vscode/commands.json` is kept per user.
+ */
+export class CommandHistory {
+    private _memento: vscode.Memento;
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+    }
+
+    // Oldest first
+    getVersions(commandId: string): CommandVersion[] {
+        return this._memento.get<{ [id: string]: CommandVersion[] }>(VERSIONS_KEY, {})[commandId] ?? [];
+    }
+
+    getVersion(commandId: string, version: number): CommandVersion | undefined {
+        return this.getVersions(commandId).find(candidate => candidate.version === version);
+    }
+
+    // Most recently removed first
+    getDeleted(): DeletedCommand[] {
+        return this._memento.get<DeletedCommand[]>(DELETED_KEY, []);
+    }
+
+    /**
+     * Records one save of a scope.
+     * @param replaced The previous state of commands whose content changed.
+     * @param deleted Commands that were removed from every scope.
+     * @param present IDs of commands that exist (again), e.g. after an undo, to take out of the trash.
+     */
+    async record(replaced: CommandItem[], deleted: DeletedCommand[], present: string[]): Promise<void> {
+        const now = Date.now();
+        const versions = { ...this._memento.get<{ [id: string]: CommandVersion[] }>(VERSIONS_KEY, {}) };
+        for (const item of replaced) {
+            const previous = versions[item.id] ?? [];
+            const version = (previous[previous.length - 1]?.version ?? 0) + 1;
+            versions[item.id] = [...previous, { version, savedAt: now, item }].slice(-MAX_VERSIONS);
+        }
+
+        const removedIds = [...present, ...deleted.map(entry => entry.item.id)];
+        const trash = [...deleted, ...this.getDeleted().filter(entry => !removedIds.includes(entry.item.id))];
+        // Commands that drop out of the trash lose their history as well
+        trash.slice(MAX_DELETED).forEach(entry => delete versions[entry.item.id]);
+
+        // Both are read before either is written, so neither update is lost
+        await Promise.all([
+            this._memento.update(VERSIONS_KEY, versions),
+            this._memento.update(DELETED_KEY, trash.slice(0, MAX_DELETED))
+        ]);
+    }
+
+    // Removes commands from the trash for good, with their history
+    async purge(commandIds: string[]): Promise<void> {
+        const versions = { ...this._memento.get<{ [id: string]: CommandVersion[] }>(VERSIONS_KEY, {}) };
+        commandIds.forEach(id => delete versions[id]);
+        await Promise.all([
+            this._memento.update(VERSIONS_KEY, versions),
+            this._memento.update(DELETED_KEY, this.getDeleted().filter(entry => !commandIds.includes(entry.item.id)))
+        ]);
+    }
+}
+
+/**
+ * Undo and redo of command changes for the current session. Every save is one step,
+ * unless the changes are grouped, e.g. all commands of an import.
+ */
+export class UndoStack {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _undo: UndoStep[] = [];
+    private _redo: UndoStep[] = [];
+    private _group: UndoStep | undefined; // Collects changes while a group is open
+    private _applying = false;            // Set while undoing, so the restore isn't recorded again
+    private _restore: (scopeId: string, states: { id: string; item?: CommandItem }[]) => Promise<void>;
+
+    /**
+     * @param restore Puts the commands of a scope into the given states, removing those without an item.
+     */
+    constructor(restore: (scopeId: string, states: { id: string; item?: CommandItem }[]) => Promise<void>) {
+        this._restore = restore;
+    }
+
+    get undoLabel(): string | undefined {
+        return this._undo[this._undo.length - 1]?.label;
+    }
+
+    get redoLabel(): string | undefined {
+        return this._redo[this._redo.length - 1]?.label;
+    }
+
+    push(changes: CommandChange[]): void {
+        if (this._applying || changes.length === 0) { return; }
+        if (this._group) {
+            this._group.changes.push(...changes);
+            return;
+        }
+        this.add({ label: describeChanges(changes), changes });
+    }
+
+    // Records all changes made by the task as one step
+    async group<T>(label: string, task: () => Promise<T>): Promise<T> {
+        if (this._group) {
+            return task(); // Already part of an outer group
+        }
+        const group: UndoStep = { label, changes: [] };
+        this._group = group;
+        try {
+            return await task();
+        } finally {
+            this._group = undefined;
+            if (group.changes.length > 0) {
+                this.add(group);
+            }
+        }
+    }
+
+    // Returns the label of the step that was undone, if any
+    async undo(): Promise<string | undefined> {
+        const step = this._undo[this._undo.length - 1];
+        if (!step) { return undefined; }
+        // Going backwards, the earliest state of each command wins
+        await this.apply([...step.changes].reverse().map(change => ({ scopeId: change.scopeId, id: (change.before ?? change.after)!.id, item: change.before })));
+        this._undo.pop();
+        this._redo.push(step);
+        this._onDidChange.fire();
+        return step.label;
+    }
+
+    async redo(): Promise<string | undefined> {
+        const step = this._redo[this._redo.length - 1];
+        if (!step) { return undefined; }
+        await this.apply(step.changes.map(change => ({ scopeId: change.scopeId, id: (change.after ?? change.before)!.id, item: change.after })));
+        this._redo.pop();
+        this._undo.push(step);
+        this._onDidChange.fire();
+        return step.label;
+    }
+
+    clear(): void {
+        this._undo = [];
+        this._redo = [];
+        this._onDidChange.fire();
+    }
+
+    private add(step: UndoStep) {
+        this._undo = [...this._undo, step].slice(-MAX_UNDO_STEPS);
+        this._redo = [];
+        this._onDidChange.fire();
+    }
+
+    // Restores the last given state of each command, one save per scope
+    private async apply(states: { scopeId: string; id: string; item?: CommandItem }[]) {
+        const byScope = new Map<string, Map<string, CommandItem | undefined>>();
+        for (const state of states) {
+            const scope = byScope.get(state.scopeId) ?? new Map<string, CommandItem | undefined>();
+            scope.set(state.id, state.item);
+            byScope.set(state.scopeId, scope);
+        }
+        this._applying = true;
+        try {
+            for (const [scopeId, scope] of byScope) {
+                await this._restore(scopeId, Array.from(scope, ([id, item]) => ({ id, item })));
+            }
+        } finally {
+            this._applying = false;
+        }
+    }
+}
+
+interface UndoStep {
+    label: string; // e.g. 'Rename "Build"'
+    changes: CommandChange[];
+}
+
+// A label for the changes of one save, e.g. 'Edit "Build"' or "Remove 3 commands"
+function describeChanges(changes: CommandChange[]): string {
+    const name = (item: CommandItem) => `"${item.name || item.command.split('\n')[0]}"`;
+    if (changes.length === 1) {
+        const { before, after } = changes[0];
+        if (!before) { return `Add ${name(after!)}`; }
+        if (!after) { return `Remove ${name(before)}`; }
+        if (before.name !== after.name) { return `Rename ${name(before)}`; }
+        if (before.folder !== after.folder) { return `Move ${name(after)}`; }
+        return `Edit ${name(after)}`;
+    }
+    if (changes.every(change => !change.before)) { return `Add ${changes.length} commands`; }
+    if (changes.every(change => !change.after)) { return `Remove ${changes.length} commands`; }
+    return `Change ${changes.length} commands`;
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import { CommandFileSystemProvider, commandFsScheme, getVersionNumber } from './commandFs';
+import { CommandItem } from './extension';
+import { CommandUsage, RunStats } from './commandUsage';
+
+export const ARCHIVE_FOLDER = 'Archive'; // Where "Archive" moves commands, in their own scope
+const MOST_USED_LIMIT = 10;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * What the run stats say about a command:
+ * - failed: its last run ended with a non-zero exit code
+ * - stale:  it wasn't run (or, if never run, created) within the "commandsViewer.staleAfterDays" setting
+ */
+export type CommandStatus = 'failed' | 'stale';
+
+export type InsightKind = 'mostUsed' | 'recentlyFailing' | 'notRunRecently' | 'neverUsed';
+
+const SECTIONS: { [kind in InsightKind]: { label: string; icon: string; tooltip: string } } = {
+    mostUsed: { label: 'Most Used', icon: 'flame', tooltip: `The ${MOST_USED_LIMIT} commands you run most often` },
+    recentlyFailing: { label: 'Recently Failing', icon: 'error', tooltip: 'Commands whose last run failed, most recent first' },
+    notRunRecently: { label: 'Not Run Recently', icon: 'history', tooltip: 'Commands that ran before, but not within "commandsViewer.staleAfterDays"' },
+    neverUsed: { label: 'Never Used', icon: 'circle-slash', tooltip: 'Commands that were never run, oldest first' }
+};
+
+/**
+ * A saved command with the scope it belongs to.
+ */
+export interface ScopedCommand {
+    item: CommandItem;
+    scopeId: string;
+}
+
+export function getCommandStatus(item: CommandItem, stats: RunStats | undefined, now: number = Date.now()): CommandStatus | undefined {
+    if (stats?.lastExitCode !== undefined && stats.lastExitCode !== 0) {
+        return 'failed';
+    }
+    return now - (stats?.lastRunAt ?? item.createdAt) > getStaleAfterDays() * DAY ? 'stale' : undefined;
+}
+
+// e.g. "12 runs, 3 days ago" or "1 run, just now, exit 2"
+export function formatRunStats(stats: RunStats, now: number = Date.now()): string {
+    const parts = [`${stats.runCount} run${stats.runCount === 1 ? '' : 's'}`, formatTimeAgo(stats.lastRunAt, now)];
+    if (stats.lastExitCode !== undefined && stats.lastExitCode !== 0) {
+        parts.push(`exit ${stats.lastExitCode}`);
+    }
+    return parts.join(', ');
+}
+
+// e.g. "just now", "5 minutes ago", "3 days ago"
+export function formatTimeAgo(time: number, now: number = Date.now()): string {
+    const units: [string, number][] = [['year', 365 * DAY], ['month', 30 * DAY], ['day', DAY], ['hour', 60 * 60 * 1000], ['minute', 60 * 1000]];
+    for (const [unit, length] of units) {
+        const count = Math.floor((now - time) / length);
+        if (count >= 1) {
+            return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+        }
+    }
+    return 'just now';
+}
+
+export function isArchived(item: CommandItem): boolean {
+    return item.folder === ARCHIVE_FOLDER || (item.folder?.startsWith(`${ARCHIVE_FOLDER}/`) ?? false);
+}
+
+/**
+ * Colors failed and stale commands wherever their `commandfile:` URIs show up: in the tree and on editor tabs.
+ */
+export class CommandStatusDecorations implements vscode.FileDecorationProvider, vscode.Disposable {
+    private _onDidChangeFileDecorations = new vscode.EventEmitter<undefined>();
+    readonly onDidChangeFileDecorations: vscode.Event<undefined> = this._onDidChangeFileDecorations.event;
+
+    private _commandFsProvider: CommandFileSystemProvider;
+    private _usage: CommandUsage;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(commandFsProvider: CommandFileSystemProvider, usage: CommandUsage) {
+        this._commandFsProvider = commandFsProvider;
+        this._usage = usage;
+        this._disposables.push(
+            this._onDidChangeFileDecorations,
+            usage.onDidChange(() => this._onDidChangeFileDecorations.fire(undefined)),
+            commandFsProvider.onDidChangeFile(() => this._onDidChangeFileDecorations.fire(undefined)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('commandsViewer.staleAfterDays')) {
+                    this._onDidChangeFileDecorations.fire(undefined);
+                }
+            })
+        );
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== commandFsScheme || getVersionNumber(uri) !== undefined) { return undefined; }
+        const command = this._commandFsProvider.getCommandByUri(uri);
+        if (!command) { return undefined; }
+
+        const stats = this._usage.getRunStats(command.item.id);
+        switch (getCommandStatus(command.item, stats)) {
+            case 'failed':
+                return new vscode.FileDecoration('!', `Last run failed with exit code ${stats!.lastExitCode}`, new vscode.ThemeColor('testing.iconFailed'));
+            case 'stale':
+                return new vscode.FileDecoration(undefined, stats ? `Last run ${formatTimeAgo(stats.lastRunAt)}` : 'Never run', new vscode.ThemeColor('list.deemphasizedForeground'));
+            default:
+                return undefined;
+        }
+    }
+
+    dispose(): void {
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/**
+ * Represents a section of the "Command Insights" view, e.g. "Never Used".
+ */
+export class InsightSectionNode extends vscode.TreeItem {
+    constructor(public readonly kind: InsightKind, public readonly commands: ScopedCommand[]) {
+        super(SECTIONS[kind].label, kind === 'neverUsed' || commands.length === 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `insights:${kind}`;
+        this.description = `${commands.length}`;
+        this.tooltip = SECTIONS[kind].tooltip;
+        this.iconPath = new vscode.ThemeIcon(SECTIONS[kind].icon);
+        this.contextValue = commands.length > 0 ? 'insightSection' : 'insightSection.empty';
+    }
+}
+
+/**
+ * Represents a command in the "Command Insights" view. Clicking it opens the command.
+ */
+export class InsightCommandNode extends vscode.TreeItem {
+    constructor(public readonly entry: ScopedCommand, kind: InsightKind, uri: vscode.Uri, stats: RunStats | undefined, scopeLabel?: string) {
+        super(entry.item.name || entry.item.command.split('\n')[0], vscode.TreeItemCollapsibleState.None);
+        this.id = `insights:${kind}:${entry.scopeId}:${entry.item.id}`;
+        const usage = stats ? formatRunStats(stats) : `created ${formatTimeAgo(entry.item.createdAt)}`;
+        this.description = [...(scopeLabel ? [scopeLabel] : []), usage].join(' · ');
+        this.resourceUri = uri; // For the status decorations
+        this.iconPath = new vscode.ThemeIcon(entry.item.kind === 'sequence' ? 'list-ordered' : 'terminal');
+        this.contextValue = 'insightItem';
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Command',
+            arguments: [uri]
+        };
+    }
+}
+
+export type InsightsTreeNode = InsightSectionNode | InsightCommandNode;
+
+/**
+ * Provides data to the 'commandsViewerInsights' Tree View: the most used, recently failing,
+ * not recently run and never used commands of all scopes. Archived commands are left out.
+ */
+export class CommandInsightsProvider implements vscode.TreeDataProvider<InsightsTreeNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<InsightsTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<InsightsTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private _commandFsProvider: CommandFileSystemProvider;
+    private _usage: CommandUsage;
+
+    constructor(commandFsProvider: CommandFileSystemProvider, usage: CommandUsage) {
+        this._commandFsProvider = commandFsProvider;
+        this._usage = usage;
+        this._commandFsProvider.onDidChangeFile(() => this._onDidChangeTreeData.fire());
+        this._usage.onDidChange(() => this._onDidChangeTreeData.fire());
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('commandsViewer.staleAfterDays')) {
+                this._onDidChangeTreeData.fire();
+            }
+        });
+    }
+
+    getTreeItem(element: InsightsTreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: InsightsTreeNode): InsightsTreeNode[] {
+        const allStats = this._usage.getAllRunStats();
+        if (element instanceof InsightSectionNode) {
+            const scopes = this._commandFsProvider.getScopes();
+            return element.commands.map(command => new InsightCommandNode(
+                command,
+                element.kind,
+                this._commandFsProvider.getCommandUri(command.item.id, command.scopeId)!,
+                allStats[command.item.id],
+                scopes.length > 1 ? scopes.find(scope => scope.id === command.scopeId)?.label : undefined
+            ));
+        }
+        if (element) {
+            return [];
+        }
+
+        const commands = this._commandFsProvider.getScopes()
+            .flatMap(scope => this._commandFsProvider.getAllCommandItems(scope.id).map(item => ({ item, scopeId: scope.id })))
+            .filter(({ item }) => !isArchived(item));
+        const grouped = groupCommands(commands, allStats, Date.now(), getStaleAfterDays());
+        return (Object.keys(SECTIONS) as InsightKind[]).map(kind => new InsightSectionNode(kind, grouped[kind]));
+    }
+}
+
+/**
+ * Sorts commands into the sections of the "Command Insights" view. A command can be in several sections,
+ * e.g. "Most Used" and "Recently Failing".
+ */
+export function groupCommands(commands: ScopedCommand[], allStats: { [id: string]: RunStats }, now: number, staleAfterDays: number): { [kind in InsightKind]: ScopedCommand[] } {
+    const stats = (command: ScopedCommand) => allStats[command.item.id];
+    const used = commands.filter(command => stats(command) !== undefined);
+    return {
+        mostUsed: [...used]
+            .sort((a, b) => stats(b).runCount - stats(a).runCount || stats(b).lastRunAt - stats(a).lastRunAt)
+            .slice(0, MOST_USED_LIMIT),
+        recentlyFailing: used
+            .filter(command => stats(command).lastExitCode !== undefined && stats(command).lastExitCode !== 0)
+            .sort((a, b) => stats(b).lastRunAt - stats(a).lastRunAt),
+        notRunRecently: used
+            .filter(command => now - stats(command).lastRunAt > staleAfterDays * DAY)
+            .sort((a, b) => stats(a).lastRunAt - stats(b).lastRunAt),
+        neverUsed: commands
+            .filter(command => stats(command) === undefined)
+            .sort((a, b) => a.item.createdAt - b.item.createdAt)
+    };
+}
+
+/**
+ * The commands an action applies to: the selected commands, or all commands of a selected section.
+ */
+export function getSelectedCommands(node: InsightsTreeNode | undefined, nodes: InsightsTreeNode[] | undefined): ScopedCommand[] {
+    const selected = nodes && nodes.length > 0 ? nodes : node ? [node] : [];
+    const commands = selected.flatMap(selectedNode => selectedNode instanceof InsightSectionNode ? selectedNode.commands : [selectedNode.entry]);
+    return commands.filter((command, index) => commands.findIndex(other => other.item.id === command.item.id) === index);
+}
+
+function getStaleAfterDays(): number {
+    return vscode.workspace.getConfiguration('commandsViewer').get<number>('staleAfterDays', 90);
+}
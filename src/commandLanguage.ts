@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandFileSystemProvider, commandFsScheme } from './commandFs';
+import { CommandDocumentError, parseCommandDocument, ParsedCommandDocument } from './commandDocument';
+import { lintCommand } from './commandLint';
+import { PLATFORMS, usesShellSyntax } from './scripts';
+import { BUILTIN_PREFIXES, BUILTIN_VARIABLES, parsePlaceholders } from './placeholders';
+
+export const COMMAND_LANGUAGE_ID = 'commandfile';
+
+const FIELD_DESCRIPTIONS: { [field: string]: string } = {
+    name: 'Display name of the command',
+    description: 'Longer explanation, shown in the tooltip',
+    tags: 'Comma-separated labels, e.g. "build, api"',
+    cwd: 'Working directory, absolute or relative to the workspace folder',
+    env: 'Environment variables, one per indented line as "NAME: value"',
+    shell: 'Shell to run the command with, e.g. "bash" or "pwsh"',
+    shellArgs: 'Arguments for the shell, e.g. "-l"',
+    runMode: 'activeTerminal, dedicatedTerminal, newTerminal or background',
+    requiresConfirmation: 'true to always ask before running, false to never ask',
+    interpreter: 'Runs the command as a script file with this program, e.g. "bash", "python3" or "pwsh"'
+};
+
+/**
+ * Editor support for command documents in the `commandfile:` scheme: assigns the language,
+ * reports diagnostics, and completes executables, saved commands and placeholders.
+ */
+export class CommandLanguageFeatures implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.Disposable {
+    private _commandFsProvider: CommandFileSystemProvider;
+    private _diagnostics: vscode.DiagnosticCollection;
+    private _executables?: Promise<string[]>; // Names of the executables on PATH, read once
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(commandFsProvider: CommandFileSystemProvider) {
+        this._commandFsProvider = commandFsProvider;
+        this._diagnostics = vscode.languages.createDiagnosticCollection('commandsViewer');
+        this._disposables.push(
+            this._diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.onDidOpen(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.validate(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this._diagnostics.delete(document.uri))
+        );
+        vscode.workspace.textDocuments.forEach(document => this.onDidOpen(document));
+    }
+
+    private onDidOpen(document: vscode.TextDocument) {
+        if (document.uri.scheme !== commandFsScheme) { return; }
+        if (document.languageId !== COMMAND_LANGUAGE_ID) {
+            // Changing the language reopens the document, which calls this again
+            vscode.languages.setTextDocumentLanguage(document, COMMAND_LANGUAGE_ID);
+            return;
+        }
+        this.validate(document);
+    }
+
+    private validate(document: vscode.TextDocument) {
+        if (document.uri.scheme !== commandFsScheme) { return; }
+
+        let parsed: ParsedCommandDocument;
+        try {
+            parsed = parseCommandDocument(document.getText());
+        } catch (error: any) {
+            if (!(error instanceof CommandDocumentError)) { throw error; }
+            const line = document.lineAt(Math.min(error.line, document.lineCount) - 1);
+            const diagnostic = new vscode.Diagnostic(line.range, error.message.replace(/^Line \d+: /, ''), vscode.DiagnosticSeverity.Error);
+            this._diagnostics.set(document.uri, [withSource(diagnostic)]);
+            return;
+        }
+
+        // The command and each platform variant are checked on their own, at their own lines
+        const bodies = [
+            { command: parsed.fields.command, interpreter: parsed.fields.interpreter, line: parsed.bodyLine },
+            ...PLATFORMS.filter(platform => parsed.fields.platforms?.[platform]).map(platform => ({
+                ...parsed.fields.platforms![platform]!,
+                line: parsed.variantLines[platform]!
+            }))
+        ];
+        this._diagnostics.set(document.uri, bodies.flatMap(({ command, interpreter, line }) => {
+            const toPosition = (offset: number) => {
+                const lines = command.substring(0, offset).split('\n');
+                return new vscode.Position(line - 1 + lines.length - 1, lines[lines.length - 1].length);
+            };
+            return lintCommand(command, usesShellSyntax(interpreter)).map(problem => withSource(new vscode.Diagnostic(
+                new vscode.Range(toPosition(problem.offset), toPosition(problem.offset + problem.length)),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            )));
+        }));
+    }
+
+    // --- Completion ---
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+        const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+        const frontMatterEnd = findFrontMatterEnd(document);
+
+        if (position.line > 0 && position.line < frontMatterEnd) {
+            return this.completeField(linePrefix, position);
+        }
+
+        // `${` starts a placeholder
+        const placeholder = /\$\{([^}]*)$/.exec(linePrefix);
+        if (placeholder && !linePrefix.substring(0, placeholder.index).endsWith('\\')) {
+            return this.completePlaceholder(document, placeholder[1], position);
+        }
+
+        // Executables and saved commands only where a command can start
+        const word = /[\w.+-]*$/.exec(linePrefix)![0];
+        if (!/(?:^|[|;&(]|&&|\|\||\$\()\s*$/.test(linePrefix.substring(0, linePrefix.length - word.length))) {
+            return [];
+        }
+        const range = new vscode.Range(position.translate(0, -word.length), position);
+        const current = this._commandFsProvider.getCommandByUri(document.uri)?.item.id;
+
+        const savedCommands = this._commandFsProvider.getScopes()
+            .flatMap(scope => this._commandFsProvider.getAllCommandItems(scope.id))
+            .filter(item => item.id !== current && item.kind !== 'sequence')
+            .map(item => {
+                const completion = new vscode.CompletionItem({ label: item.name || item.command, description: 'Saved command' }, vscode.CompletionItemKind.Reference);
+                completion.insertText = item.command; // Plain text, so its placeholders are kept as-is
+                completion.filterText = `${item.name ?? ''} ${item.command}`;
+                completion.documentation = new vscode.MarkdownString().appendCodeblock(item.command, 'shellscript');
+                completion.range = range;
+                completion.sortText = `0${item.name || item.command}`;
+                return completion;
+            });
+        const executables = (await this.getExecutables()).map(name => {
+            const completion = new vscode.CompletionItem(name, vscode.CompletionItemKind.Function);
+            completion.range = range;
+            completion.sortText = `1${name}`;
+            return completion;
+        });
+        return [...savedCommands, ...executables];
+    }
+
+    private completeField(linePrefix: string, position: vscode.Position): vscode.CompletionItem[] {
+        if (/^\w*$/.test(linePrefix)) {
+            return Object.entries(FIELD_DESCRIPTIONS).map(([field, description]) => {
+                const completion = new vscode.CompletionItem(field, vscode.CompletionItemKind.Property);
+                completion.insertText = field === 'env' ? 'env:\n  ' : `${field}: `;
+                completion.documentation = description;
+                completion.range = new vscode.Range(position.translate(0, -linePrefix.length), position);
+                return completion;
+            });
+        }
+        if (/^runMode:\s*\w*$/.test(linePrefix)) {
+            return ['activeTerminal', 'dedicatedTerminal', 'newTerminal', 'background']
+                .map(mode => new vscode.CompletionItem(mode, vscode.CompletionItemKind.EnumMember));
+        }
+        if (/^requiresConfirmation:\s*\w*$/.test(linePrefix)) {
+            return ['true', 'false'].map(value => new vscode.CompletionItem(value, vscode.CompletionItemKind.Value));
+        }
+        return [];
+    }
+
+    private completePlaceholder(document: vscode.TextDocument, typed: string, position: vscode.Position): vscode.CompletionItem[] {
+        const range = new vscode.Range(position.translate(0, -typed.length), position);
+        const prefix = /^(\w+):/.exec(typed);
+        if (prefix?.[1] === 'env') {
+            const argumentRange = new vscode.Range(position.translate(0, -(typed.length - prefix[0].length)), position);
+            return Object.keys(process.env).sort().map(name => {
+                const completion = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+                completion.range = argumentRange;
+                return completion;
+            });
+        }
+        if (prefix) {
+            return [];
+        }
+
+        // Built-ins, prefixes, and variables already used in this command
+        const used = new Set(parsePlaceholders(document.getText()).filter(p => !p.builtin).map(p => p.name));
+        return [
+            ...Object.entries(BUILTIN_VARIABLES).map(([name, description]) => {
+                const completion = new vscode.CompletionItem(name, vscode.CompletionItemKind.Constant);
+                completion.detail = description;
+                return completion;
+            }),
+            ...Object.entries(BUILTIN_PREFIXES).map(([name, description]) => {
+                const completion = new vscode.CompletionItem(`${name}:`, vscode.CompletionItemKind.Module);
+                completion.detail = description;
+                completion.command = { command: 'editor.action.triggerSuggest', title: 'Suggest' };
+                return completion;
+            }),
+            ...Array.from(used).map(name => {
+                const completion = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+                completion.detail = 'Prompted when the command runs';
+                return completion;
+            })
+        ].map(completion => {
+            completion.range = range;
+            return completion;
+        });
+    }
+
+    // Lists executables in the PATH directories; on Windows only files with an extension from PATHEXT
+    private getExecutables(): Promise<string[]> {
+        if (!this._executables) {
+            const extensions = process.platform === 'win32'
+                ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT;.COM').toLowerCase().split(';')
+                : undefined;
+            const directories = (process.env.PATH ?? '').split(path.delimiter).filter(directory => directory !== '');
+            this._executables = Promise.all(directories.map(async directory => {
+                try {
+                    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+                    return entries
+                        .filter(entry => entry.isFile() || entry.isSymbolicLink())
+                        .map(entry => entry.name)
+                        .filter(name => !extensions || extensions.includes(path.extname(name).toLowerCase()));
+                } catch {
+                    return []; // Missing or unreadable directory
+                }
+            })).then(names => Array.from(new Set(names.flat())).sort());
+        }
+        return this._executables;
+    }
+
+    // --- Hover ---
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const line = document.lineAt(position.line).text;
+        const placeholder = parsePlaceholders(line)
+            .find(p => position.character >= p.offset && position.character <= p.offset + p.raw.length);
+        if (!placeholder || position.line <= findFrontMatterEnd(document)) {
+            return undefined;
+        }
+
+        const contents = new vscode.MarkdownString();
+        contents.appendCodeblock(placeholder.raw, 'shellscript');
+        if (placeholder.name in BUILTIN_PREFIXES) {
+            contents.appendMarkdown(`${BUILTIN_PREFIXES[placeholder.name]}: \`${placeholder.argument}\`.`);
+            if (placeholder.name === 'env') {
+                const value = process.env[placeholder.argument || ''];
+                contents.appendMarkdown(value === undefined ? ' Not set in this window.' : `\n\nCurrently \`${value}\`.`);
+            }
+        } else if (placeholder.builtin) {
+            contents.appendMarkdown(`${BUILTIN_VARIABLES[placeholder.name]}. Resolved automatically when the command runs.`);
+        } else if (placeholder.choices) {
+            contents.appendMarkdown(`Asks you to pick a value for \`${placeholder.name}\` from: ${placeholder.choices.map(choice => `\`${choice}\``).join(', ')}.`);
+        } else {
+            contents.appendMarkdown(`Asks you for a value for \`${placeholder.name}\` when the command runs`);
+            contents.appendMarkdown(placeholder.defaultValue !== undefined ? `, with the default \`${placeholder.defaultValue}\`.` : '.');
+            contents.appendMarkdown(' The last value you entered is offered again.');
+        }
+        return new vscode.Hover(contents, new vscode.Range(position.line, placeholder.offset, position.line, placeholder.offset + placeholder.raw.length));
+    }
+
+    dispose(): void {
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+// The line of the closing `---` of the front matter, or -1 if there is none
+function findFrontMatterEnd(document: vscode.TextDocument): number {
+    if (document.lineAt(0).text.trim() !== '---') {
+        return -1;
+    }
+    for (let line = 1; line < document.lineCount; line++) {
+        if (document.lineAt(line).text.trim() === '---') {
+            return line;
+        }
+    }
+    return document.lineCount;
+}
+
+function withSource(diagnostic: vscode.Diagnostic): vscode.Diagnostic {
+    diagnostic.source = 'Commands Viewer';
+    return diagnostic;
+}
@@ -0,0 +1,150 @@
+import { BUILTIN_PREFIXES, BUILTIN_VARIABLES, parsePlaceholders } from './placeholders';
+
+/**
+ * A problem found in a command's text, located by offset into that text.
+ */
+export interface LintProblem {
+    offset: number;
+    length: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * A command pattern that can destroy data or the system, with a short explanation.
+ */
+export interface DangerousPattern {
+    pattern: RegExp;
+    description: string;
+}
+
+export const DANGEROUS_PATTERNS: DangerousPattern[] = [
+    {
+        pattern: /\brm\s+(?:-[\w-]+\s+)*-(?:[a-zA-Z]*[rR][a-zA-Z]*|-recursive)\s+(?:-[\w-]+\s+)*(?:\/\*?|~\/?|\$HOME\/?)(?=$|[\s;&|])/,
+        description: 'recursively deletes the root or home directory'
+    },
+    { pattern: /\bmkfs(?:\.\w+)?\b/, description: 'formats a file system' },
+    { pattern: /\bdd\b[^\n;|&]*\bof=\/dev\/(?:sd|hd|nvme|disk|mmcblk)\w*/, description: 'overwrites a disk' },
+    { pattern: />\s*\/dev\/(?:sd|hd|nvme|disk|mmcblk)\w*/, description: 'overwrites a disk' },
+    { pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/, description: 'is a fork bomb' },
+    { pattern: /\bchmod\s+(?:-\w+\s+)*-R\s+(?:-\w+\s+)*0?777\s+\/(?=$|\s)/, description: 'makes every file on the system writable by anyone' },
+    { pattern: /\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+)?(?:ba|z)?sh\b/, description: 'runs a downloaded script without checking it' }
+];
+
+/**
+ * Checks a command for obvious mistakes: unclosed quotes, invalid or misspelled placeholders,
+ * and dangerous patterns such as `rm -rf /`.
+ * @param checkQuotes False for scripts in other languages than the shell's, which quote differently.
+ */
+export function lintCommand(command: string, checkQuotes: boolean = true): LintProblem[] {
+    return [
+        ...(checkQuotes ? findUnclosedQuotes(command) : []),
+        ...findPlaceholderProblems(command),
+        ...findDangerousPatterns(command)
+    ].sort((a, b) => a.offset - b.offset);
+}
+
+// Follows shell quoting rules: nothing is escaped inside '...', backslashes escape inside "..." and unquoted text.
+// Comments and heredoc bodies are plain text, so their quotes don't count.
+function findUnclosedQuotes(command: string): LintProblem[] {
+    let quote: string | undefined;
+    let start = 0;
+    let heredocs: Heredoc[] = []; // Started on the current line; their bodies follow it
+    for (let index = 0; index < command.length; index++) {
+        const char = command[index];
+        if (quote === '\'') {
+            if (char === '\'') { quote = undefined; }
+            continue;
+        }
+        if (char === '\\') {
+            index++; // Skip the escaped character
+            continue;
+        }
+        if (quote !== undefined) {
+            if (char === quote) { quote = undefined; }
+            continue;
+        }
+        if (char === '\n' && heredocs.length > 0) {
+            index = skipHeredocs(command, index + 1, heredocs) - 1;
+            heredocs = [];
+        } else if (char === '#' && (index === 0 || /[\s;&|()]/.test(command[index - 1]))) {
+            const lineEnd = command.indexOf('\n', index); // A comment runs to the end of the line
+            index = lineEnd === -1 ? command.length : lineEnd - 1;
+        } else if (command.startsWith('<<<', index)) {
+            index += 2; // A here-string: its word is quoted as usual
+        } else if (command.startsWith('<<', index)) {
+            const match = /^<<(-?)[ \t]*(['"]?)\\?([A-Za-z_][\w.-]*)\2/.exec(command.substring(index));
+            if (match) {
+                heredocs.push({ delimiter: match[3], stripTabs: match[1] === '-' });
+                index += match[0].length - 1;
+            }
+        } else if (char === '"' || char === '\'' || char === '`') {
+            quote = char;
+            start = index;
+        }
+    }
+
+    if (quote === undefined) {
+        return [];
+    }
+    const name = quote === '`' ? 'backtick' : quote === '"' ? 'double quote' : 'single quote';
+    return [{ offset: start, length: 1, message: `Unclosed ${name}.`, severity: 'error' }];
+}
+
+interface Heredoc {
+    delimiter: string;  // The word that ends it on a line of its own
+    stripTabs: boolean; // `<<-` allows tabs before the delimiter
+}
+
+// Skips the bodies of heredocs, one after the other, starting at `index`. Returns where the text after them starts.
+function skipHeredocs(command: string, index: number, heredocs: Heredoc[]): number {
+    for (const { delimiter, stripTabs } of heredocs) {
+        while (index < command.length) {
+            const lineEnd = command.indexOf('\n', index);
+            const line = command.substring(index, lineEnd === -1 ? command.length : lineEnd).replace(/\r$/, '');
+            index = lineEnd === -1 ? command.length : lineEnd + 1;
+            if ((stripTabs ? line.replace(/^\t+/, '') : line) === delimiter) { break; }
+        }
+    }
+    return index;
+}
+
+function findPlaceholderProblems(command: string): LintProblem[] {
+    const problems: LintProblem[] = [];
+    for (const placeholder of parsePlaceholders(command)) {
+        const location = { offset: placeholder.offset, length: placeholder.raw.length };
+        if (placeholder.name in BUILTIN_PREFIXES) {
+            if (!placeholder.argument) {
+                problems.push({ ...location, message: `"${placeholder.raw}" needs a name after "${placeholder.name}:".`, severity: 'error' });
+            }
+            continue;
+        }
+        if (placeholder.builtin) {
+            continue;
+        }
+
+        // A prompted variable that differs from a built-in only by case is most likely a typo
+        const builtin = Object.keys(BUILTIN_VARIABLES).find(name => name.toLowerCase() === placeholder.name.toLowerCase());
+        if (builtin) {
+            problems.push({ ...location, message: `Unknown placeholder "${placeholder.raw}", it will prompt for a value. Did you mean "\${${builtin}}"?`, severity: 'warning' });
+        }
+    }
+
+    // `${` without a closing brace is passed to the shell as-is, which is rarely intended
+    for (const match of command.matchAll(/(\\?)\$\{[^}]*$/g)) {
+        if (!match[1]) {
+            problems.push({ offset: match.index!, length: match[0].length, message: 'Placeholder is missing its closing "}".', severity: 'error' });
+        }
+    }
+    return problems;
+}
+
+function findDangerousPatterns(command: string): LintProblem[] {
+    const problems: LintProblem[] = [];
+    for (const { pattern, description } of DANGEROUS_PATTERNS) {
+        for (const match of command.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`))) {
+            problems.push({ offset: match.index!, length: match[0].length, message: `Dangerous command: this ${description}.`, severity: 'warning' });
+        }
+    }
+    return problems;
+}
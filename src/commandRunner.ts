@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { RunMode } from './extension';
+import { formatDuration, MAX_STORED_OUTPUT, RunHistory, RunHistoryEntry } from './runHistory';
+import { deleteScriptFile, formatCommandLine, getExecutableName, getScriptCommandLine, writeScriptFile } from './scripts';
+
+/**
+ * Everything needed to execute a command once its placeholders are resolved.
+ */
+export interface RunRequest {
+    commandId?: string;                  // The saved command being run, if any
+    scopeId?: string;                    // Scope of that command
+    label: string;                       // Used for terminal names and messages
+    command: string;                     // The final command text
+    values: { [name: string]: string };  // Placeholder answers, kept for the history
+    cwd?: string;                        // Working directory for new terminals and background runs
+    env?: { [name: string]: string };    // Extra environment variables
+    shell?: string;                      // Shell executable, e.g. "bash" or "pwsh"; the default shell if omitted
+    shellArgs?: string[];                // Arguments passed to the shell
+    interpreter?: string;                // Runs `command` as a script file with this program instead
+    mode: RunMode;
+}
+
+/**
+ * The live or last known state of a saved command, shown in the commands tree.
+ */
+export interface RunState {
+    running: boolean;
+    exitCode?: number;   // Set once a background run finished
+    duration?: number;   // Milliseconds, set once a background run finished
+}
+
+/**
+ * Runs commands in terminals or as background processes, and records every run in the history.
+ */
+export class CommandRunner implements vscode.Disposable {
+    private _onDidChangeRunState = new vscode.EventEmitter<string>(); // Fires the command ID
+    readonly onDidChangeRunState: vscode.Event<string> = this._onDidChangeRunState.event;
+
+    private _outputChannel: vscode.OutputChannel;
+    private _history: RunHistory;
+    // Dedicated terminals, reused between runs of the same command. Key: command ID (or label)
+    private _dedicatedTerminals: Map<string, vscode.Terminal> = new Map<string, vscode.Terminal>();
+    // Background processes currently running. Key: command ID (or label)
+    private _processes: Map<string, childProcess.ChildProcess> = new Map<string, childProcess.ChildProcess>();
+    private _runStates: Map<string, RunState> = new Map<string, RunState>();
+    // Script files of terminal runs. They may still be in use, so they are only removed on dispose
+    private _scriptFiles: Set<string> = new Set<string>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(history: RunHistory) {
+        this._history = history;
+        this._outputChannel = vscode.window.createOutputChannel('Commands Viewer');
+        this._disposables.push(
+            this._outputChannel,
+            this._onDidChangeRunState,
+            vscode.window.onDidCloseTerminal(terminal => {
+                for (const [key, dedicated] of this._dedicatedTerminals) {
+                    if (dedicated === terminal) {
+                        this._dedicatedTerminals.delete(key);
+                    }
+                }
+            })
+        );
+    }
+
+    getRunState(commandId: string): RunState | undefined {
+        return this._runStates.get(commandId);
+    }
+
+    // Whether the command of a request is running in the background, which it can only do once at a time
+    isRunning(request: RunRequest): boolean {
+        return this._runStates.get(getCommandKey(request))?.running ?? false;
+    }
+
+    showOutput(): void {
+        this._outputChannel.show();
+    }
+
+    async run(request: RunRequest): Promise<void> {
+        if (request.mode === 'background') {
+            await this.runInBackground(request);
+            return;
+        }
+
+        const terminal = this.getTerminal(request);
+        let text = request.command;
+        if (request.interpreter) {
+            let file: string;
+            try {
+                file = await writeScriptFile(request.command, request.interpreter);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to write script: ${error.message}`);
+                return;
+            }
+            this._scriptFiles.add(file);
+            const shell = (terminal.creationOptions as vscode.TerminalOptions).shellPath ?? vscode.env.shell;
+            text = formatCommandLine(getScriptCommandLine(request.interpreter, file), shell);
+        }
+        terminal.show();
+        terminal.sendText(text);
+        await this._history.record(this.createHistoryEntry(request));
+    }
+
+    /**
+     * Runs a command as a background process without notifications, e.g. as a step of a sequence.
+     * @returns The exit code, or `undefined` if the command was already running or could not start.
+     */
+    execute(request: RunRequest): Promise<number | undefined> {
+        return this.runInBackground({ ...request, mode: 'background' }, false);
+    }
+
+    // Stops a background run of a saved command
+    stop(commandId: string): void {
+        this._processes.get(commandId)?.kill();
+    }
+
+    private getTerminal(request: RunRequest): vscode.Terminal {
+        const name = `Command: ${request.label.substring(0, 30)}`;
+        switch (request.mode) {
+            case 'dedicatedTerminal': {
+                const key = getCommandKey(request);
+                let terminal = this._dedicatedTerminals.get(key);
+                if (!terminal || terminal.exitStatus !== undefined) {
+                    terminal = this.createTerminal(name, request);
+                    this._dedicatedTerminals.set(key, terminal);
+                }
+                return terminal;
+            }
+            case 'newTerminal':
+                return this.createTerminal(name, request);
+            case 'activeTerminal':
+            default:
+                return vscode.window.activeTerminal ?? this.createTerminal(name, request);
+        }
+    }
+
+    private createTerminal(name: string, request: RunRequest): vscode.Terminal {
+        return vscode.window.createTerminal({
+            name,
+            cwd: request.cwd,
+            env: request.env,
+            shellPath: request.shell,
+            shellArgs: request.shell ? request.shellArgs : undefined
+        });
+    }
+
+    private async runInBackground(request: RunRequest, notify: boolean = true): Promise<number | undefined> {
+        const key = getCommandKey(request);
+        const previousState = this._runStates.get(key);
+        if (previousState?.running) {
+            if (notify) {
+                vscode.window.showWarningMessage(`"${request.label}" is already running.`);
+            }
+            return undefined;
+        }
+        // Counts as running from here on, so a second run can't start while the script file is written
+        this.setRunState(key, { running: true });
+
+        let scriptFile: string | undefined;
+        if (request.interpreter) {
+            try {
+                scriptFile = await writeScriptFile(request.command, request.interpreter);
+            } catch (error: any) {
+                this.setRunState(key, previousState ?? { running: false });
+                vscode.window.showErrorMessage(`Failed to write script: ${error.message}`);
+                return undefined;
+            }
+        }
+
+        const entry = this.createHistoryEntry(request);
+        const cwd = request.cwd ?? os.homedir();
+        let output = '';
+        const append = (text: string) => {
+            // Only the end of the output is kept, so long-running commands don't fill up memory
+            output = (output + text).slice(-MAX_STORED_OUTPUT);
+            this._outputChannel.append(text);
+        };
+
+        this._outputChannel.show(true);
+        this._outputChannel.appendLine(`> ${request.label} (${new Date(entry.startedAt).toLocaleTimeString()})`);
+        this._outputChannel.appendLine(`$ ${scriptFile ? getScriptCommandLine(request.interpreter!, scriptFile).join(' ') : request.command}`);
+
+        return new Promise<number | undefined>(resolve => {
+            const env = { ...process.env, ...request.env };
+            let child: childProcess.ChildProcess;
+            if (scriptFile) {
+                const [executable, ...args] = getScriptCommandLine(request.interpreter!, scriptFile);
+                child = childProcess.spawn(executable, args, { cwd, env });
+            } else if (request.shell) {
+                child = childProcess.spawn(request.shell, [...(request.shellArgs ?? []), getCommandFlag(request.shell), request.command], { cwd, env });
+            } else {
+                child = childProcess.spawn(request.command, { cwd, shell: true, env });
+            }
+            this._processes.set(key, child);
+            child.stdout?.on('data', (data: Buffer) => append(data.toString()));
+            child.stderr?.on('data', (data: Buffer) => append(data.toString()));
+
+            let finished = false;
+            const finish = async (exitCode: number, error?: Error) => {
+                if (finished) { return; }
+                finished = true;
+                this._processes.delete(key);
+                if (scriptFile) {
+                    await deleteScriptFile(scriptFile);
+                }
+                if (error) {
+                    append(`${error.message}\n`);
+                }
+
+                const duration = Date.now() - entry.startedAt;
+                this._outputChannel.appendLine(`< exit code ${exitCode} in ${formatDuration(duration)}\n`);
+                this.setRunState(key, { running: false, exitCode, duration });
+                await this._history.record({ ...entry, exitCode, duration, output });
+
+                if (notify && exitCode === 0) {
+                    vscode.window.showInformationMessage(`"${request.label}" finished in ${formatDuration(duration)}.`);
+                } else if (notify) {
+                    vscode.window.showErrorMessage(`"${request.label}" failed with exit code ${exitCode}.`, 'Show Output')
+                        .then(choice => choice && this._outputChannel.show());
+                }
+                resolve(exitCode);
+            };
+
+            child.on('error', error => finish(-1, error));
+            // A process killed by a signal has no exit code
+            child.on('close', (code: number | null) => finish(code ?? 1));
+        });
+    }
+
+    private setRunState(key: string, state: RunState) {
+        this._runStates.set(key, state);
+        this._onDidChangeRunState.fire(key);
+    }
+
+    private createHistoryEntry(request: RunRequest): RunHistoryEntry {
+        return {
+            id: crypto.randomUUID(),
+            commandId: request.commandId,
+            scopeId: request.scopeId,
+            label: request.label,
+            command: request.command,
+            values: request.values,
+            cwd: request.cwd,
+            env: request.env,
+            shell: request.shell,
+            shellArgs: request.shellArgs,
+            interpreter: request.interpreter,
+            mode: request.mode,
+            startedAt: Date.now()
+        };
+    }
+
+    dispose(): void {
+        this._processes.forEach(child => child.kill());
+        this._scriptFiles.forEach(file => deleteScriptFile(file));
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+// Dedicated terminals and background runs belong to the saved command, or to the label of other commands
+function getCommandKey(request: RunRequest): string {
+    return request.commandId ?? request.label;
+}
+
+// The flag that makes a shell run the next argument as a command
+function getCommandFlag(shell: string): string {
+    switch (getExecutableName(shell)) {
+        case 'pwsh':
+        case 'powershell':
+            return '-Command';
+        case 'cmd':
+            return '/c';
+        default:
+            return '-c';
+    }
+}
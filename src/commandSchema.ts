@@ -0,0 +1,160 @@
+import * as jsonc from 'jsonc-parser';
+import { CommandItem } from './extension';
+import { StoredCommands } from './commandStore';
+import { PLATFORMS } from './scripts';
+
+/**
+ * A syntax or schema problem in a JSON file, reported at a 1-based line number.
+ */
+export class SchemaError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'SchemaError';
+    }
+}
+
+const STRING_FIELDS = ['id', 'name', 'description', 'folder', 'cwd', 'shell', 'interpreter'];
+const NUMBER_FIELDS = ['createdAt', 'modifiedAt'];
+const STRING_ARRAY_FIELDS = ['tags', 'shellArgs'];
+const BOOLEAN_FIELDS = ['requiresConfirmation'];
+const RUN_MODES = ['activeTerminal', 'dedicatedTerminal', 'newTerminal', 'background'];
+
+/**
+ * Parses JSON with comments and trailing commas, as in VS Code's own settings files.
+ * @throws SchemaError at the first syntax error.
+ */
+export function parseJsonTree(text: string): jsonc.Node {
+    const errors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(text, errors, { allowTrailingComma: true });
+    if (errors.length > 0 || !root) {
+        const error = errors[0];
+        throw new SchemaError(
+            error ? `Invalid JSON: ${describeParseError(error.error)}.` : 'The file is empty.',
+            error ? lineAt(text, error.offset) : 1
+        );
+    }
+    return root;
+}
+
+/**
+ * Reads an exported commands file or `.vscode/commands.json`: either a bare array of commands
+ * or `{ "version", "folders", "commands" }`. Every field is checked, so mistakes are reported
+ * with their line instead of producing broken commands. Unknown fields are ignored.
+ * @throws SchemaError for syntax errors and invalid fields.
+ */
+export function parseCommandsFile(text: string): StoredCommands {
+    const root = parseJsonTree(text);
+    const fail = (node: jsonc.Node, message: string): never => {
+        throw new SchemaError(message, lineAt(text, node.offset));
+    };
+
+    let commandsNode: jsonc.Node | undefined = root;
+    let foldersNode: jsonc.Node | undefined;
+    let version = 1;
+    if (root.type === 'object') {
+        commandsNode = jsonc.findNodeAtLocation(root, ['commands']);
+        foldersNode = jsonc.findNodeAtLocation(root, ['folders']);
+        const versionNode = jsonc.findNodeAtLocation(root, ['version']);
+        if (versionNode && versionNode.type !== 'number') {
+            fail(versionNode, '"version" must be a number.');
+        }
+        version = versionNode?.value ?? 1;
+    }
+    if (!commandsNode || commandsNode.type !== 'array') {
+        return fail(commandsNode ?? root, 'Expected an array of commands, or an object with a "commands" array.');
+    }
+    if (foldersNode && (foldersNode.type !== 'array' || foldersNode.children!.some(child => child.type !== 'string'))) {
+        fail(foldersNode, 'Expected "folders" to be an array of strings.');
+    }
+
+    const commands = commandsNode.children!.map((node, index) => {
+        if (node.type !== 'object') {
+            fail(node, `Command ${index + 1} must be an object.`);
+        }
+        const property = (name: string) => jsonc.findNodeAtLocation(node, [name]);
+
+        const command = property('command');
+        if (!command || command.type !== 'string') {
+            fail(command ?? node, `Command ${index + 1} needs a "command" string.`);
+        }
+        for (const field of STRING_FIELDS) {
+            const value = property(field);
+            if (value && value.type !== 'string') { fail(value, `"${field}" must be a string.`); }
+        }
+        for (const field of NUMBER_FIELDS) {
+            const value = property(field);
+            if (value && value.type !== 'number') { fail(value, `"${field}" must be a number.`); }
+        }
+        for (const field of BOOLEAN_FIELDS) {
+            const value = property(field);
+            if (value && value.type !== 'boolean') { fail(value, `"${field}" must be true or false.`); }
+        }
+        for (const field of STRING_ARRAY_FIELDS) {
+            const value = property(field);
+            if (value && (value.type !== 'array' || value.children!.some(child => child.type !== 'string'))) {
+                fail(value, `"${field}" must be an array of strings.`);
+            }
+        }
+        const env = property('env');
+        if (env && (env.type !== 'object' || env.children!.some(child => child.children![1].type !== 'string'))) {
+            fail(env, '"env" must be an object of string values.');
+        }
+        const runMode = property('runMode');
+        if (runMode && !RUN_MODES.includes(runMode.value)) {
+            fail(runMode, `Unknown "runMode". Expected one of: ${RUN_MODES.join(', ')}.`);
+        }
+        const platforms = property('platforms');
+        if (platforms) {
+            if (platforms.type !== 'object') {
+                fail(platforms, '"platforms" must be an object with "linux", "darwin" or "win32" variants.');
+            }
+            platforms.children!.forEach(entry => {
+                const [key, variant] = entry.children!;
+                if (!PLATFORMS.includes(key.value)) {
+                    fail(key, `Unknown platform "${key.value}". Expected one of: ${PLATFORMS.join(', ')}.`);
+                }
+                const variantCommand = jsonc.findNodeAtLocation(variant, ['command']);
+                const interpreter = jsonc.findNodeAtLocation(variant, ['interpreter']);
+                if (variant.type !== 'object' || !variantCommand || variantCommand.type !== 'string') {
+                    fail(variant, `The "${key.value}" variant needs a "command" string.`);
+                }
+                if (interpreter && interpreter.type !== 'string') {
+                    fail(interpreter, '"interpreter" must be a string.');
+                }
+            });
+        }
+        const kind = property('kind');
+        if (kind && kind.value !== 'command' && kind.value !== 'sequence') {
+            fail(kind, 'Unknown "kind". Expected "command" or "sequence".');
+        }
+        const steps = property('steps');
+        if (steps) {
+            if (steps.type !== 'array') {
+                fail(steps, '"steps" must be an array.');
+            }
+            steps.children!.forEach(step => {
+                const commandId = jsonc.findNodeAtLocation(step, ['commandId']);
+                if (step.type !== 'object' || !commandId || commandId.type !== 'string') {
+                    fail(step, 'Each step needs a "commandId" string.');
+                }
+            });
+        }
+        return jsonc.getNodeValue(node) as CommandItem;
+    });
+
+    return { version, commands, folders: foldersNode ? jsonc.getNodeValue(foldersNode) : [] };
+}
+
+// 1-based line of an offset into the text
+export function lineAt(text: string, offset: number): number {
+    let line = 1;
+    for (let index = 0; index < offset && index < text.length; index++) {
+        if (text[index] === '\n') { line++; }
+    }
+    return line;
+}
+
+function describeParseError(code: jsonc.ParseErrorCode): string {
+    // "CommaExpected" -> "comma expected"
+    return jsonc.printParseErrorCode(code).replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
@@ -0,0 +1,334 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CommandItem } from './extension';
+import { parseCommandsFile } from './commandSchema';
+
+export const WORKSPACE_COMMANDS_FILE = '.vscode/commands.json'; // Checked-in command set, relative to a workspace folder
+
+// Version of the stored data layout.
+// 1: commands keyed by their generated filename, no metadata
+// 2: every command has an `id`, `createdAt` and `modifiedAt`
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// globalState keys of the user's commands
+const COMMANDS_KEY = 'customCommands';
+const FOLDERS_KEY = 'customCommandFolders';
+const SCHEMA_VERSION_KEY = 'customCommandsSchemaVersion';
+const REVISION_KEY = 'customCommandsRevision'; // Changes with every save, so other windows notice
+
+/**
+ * The globalState keys synced by Settings Sync.
+ */
+export const SYNCED_COMMAND_KEYS = [COMMANDS_KEY, FOLDERS_KEY, SCHEMA_VERSION_KEY, REVISION_KEY];
+
+// How often to check for commands saved by another window or Settings Sync, in milliseconds
+const EXTERNAL_CHANGE_CHECK_INTERVAL = 2000;
+
+/**
+ * The persisted contents of one command scope.
+ */
+export interface StoredCommands {
+    version: number;   // Schema version the data was written with
+    commands: CommandItem[];
+    folders: string[]; // Folder paths, so empty folders survive a reload
+}
+
+/**
+ * Brings stored data up to the current schema version.
+ * Commands without an ID get one derived from their content and position,
+ * so unsaved legacy data resolves to the same IDs on every load.
+ * @returns The migrated data, and whether anything had to change.
+ */
+export function migrateStoredCommands(data: StoredCommands): { data: StoredCommands; migrated: boolean } {
+    let migrated = data.version < CURRENT_SCHEMA_VERSION;
+    const now = Date.now();
+    const seenIds = new Set<string>();
+    const commands = data.commands.map((cmd, index) => {
+        let id = typeof cmd.id === 'string' && cmd.id !== '' && !seenIds.has(cmd.id) ? cmd.id : undefined;
+        if (!id) {
+            id = crypto.createHash('sha1')
+                .update(`${index}\0${cmd.folder ?? ''}\0${cmd.name ?? ''}\0${cmd.command}`)
+                .digest('hex')
+                .substring(0, 16);
+        }
+        seenIds.add(id);
+        const createdAt = typeof cmd.createdAt === 'number' ? cmd.createdAt : now;
+        const modifiedAt = typeof cmd.modifiedAt === 'number' ? cmd.modifiedAt : createdAt;
+        if (id !== cmd.id || createdAt !== cmd.createdAt || modifiedAt !== cmd.modifiedAt) {
+            migrated = true;
+        }
+        return { ...cmd, id, createdAt, modifiedAt };
+    });
+    return { data: { version: CURRENT_SCHEMA_VERSION, commands, folders: data.folders }, migrated };
+}
+
+/**
+ * A command that was changed both here and elsewhere since it was loaded. Unset for a removed command.
+ */
+export interface CommandConflict {
+    id: string;
+    ours?: CommandItem;
+    theirs?: CommandItem;
+}
+
+/**
+ * Three-way merge of a save with the changes stored elsewhere since the data was loaded, by command ID.
+ * Each side's additions, edits and removals are kept; a command changed differently on both sides is a conflict,
+ * which is resolved in favor of `prefer`.
+ * @param base The data as it was loaded.
+ * @param ours The data about to be saved.
+ * @param theirs The data stored now.
+ */
+export function mergeStoredCommands(base: StoredCommands, ours: StoredCommands, theirs: StoredCommands, prefer: 'ours' | 'theirs' = 'ours'): { merged: StoredCommands; conflicts: CommandConflict[] } {
+    const byId = (data: StoredCommands) => new Map(migrateStoredCommands(data).data.commands.map(item => [item.id, item]));
+    const baseCommands = byId(base);
+    const ourCommands = byId(ours);
+    const theirCommands = byId(theirs);
+
+    const commands: CommandItem[] = [];
+    const conflicts: CommandConflict[] = [];
+    for (const id of new Set([...theirCommands.keys(), ...ourCommands.keys()])) {
+        const [original, ourItem, theirItem] = [baseCommands.get(id), ourCommands.get(id), theirCommands.get(id)];
+        let item: CommandItem | undefined;
+        if (isSameCommand(ourItem, theirItem) || isSameCommand(theirItem, original)) {
+            item = ourItem;
+        } else if (isSameCommand(ourItem, original)) {
+            item = theirItem;
+        } else {
+            conflicts.push({ id, ours: ourItem, theirs: theirItem });
+            item = prefer === 'ours' ? ourItem : theirItem;
+        }
+        if (item) {
+            commands.push(item);
+        }
+    }
+
+    // Folders added on our side are added, and folders we removed are removed
+    const folders = new Set(theirs.folders);
+    ours.folders.filter(folder => !base.folders.includes(folder)).forEach(folder => folders.add(folder));
+    base.folders.filter(folder => !ours.folders.includes(folder)).forEach(folder => folders.delete(folder));
+    return { merged: { version: CURRENT_SCHEMA_VERSION, commands, folders: Array.from(folders).sort() }, conflicts };
+}
+
+/**
+ * A place where a scope's commands are persisted.
+ */
+export interface CommandStore extends vscode.Disposable {
+    readonly onDidChange: vscode.Event<void>; // Fired when the stored data changes outside of `save`
+    load(): StoredCommands | Thenable<StoredCommands>;
+    save(data: StoredCommands): Promise<void>;
+}
+
+/**
+ * Stores the user's personal commands in the extension's global state, which is shared by all windows
+ * and synced by Settings Sync. A revision written with every save tells when another window (or a sync)
+ * changed the commands, so they are reloaded, and a save merges with those changes instead of overwriting them.
+ */
+export class GlobalStateCommandStore implements CommandStore {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _memento: vscode.Memento;
+    private _base: StoredCommands | undefined; // The data as last loaded or saved
+    private _revision: string | undefined;     // Its revision
+    private _saving = false;                   // No reloads while a save may be waiting for a merge decision
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+        // globalState has no change event, so check now and then and whenever the window gets focus
+        const timer = setInterval(() => this.checkForExternalChange(), EXTERNAL_CHANGE_CHECK_INTERVAL);
+        this._disposables.push(
+            new vscode.Disposable(() => clearInterval(timer)),
+            vscode.window.onDidChangeWindowState(state => state.focused && this.checkForExternalChange())
+        );
+    }
+
+    load(): StoredCommands {
+        this._base = this.read();
+        this._revision = this._memento.get<string>(REVISION_KEY);
+        return this._base;
+    }
+
+    async save(data: StoredCommands): Promise<void> {
+        this._saving = true;
+        try {
+            const changedElsewhere = this._base !== undefined && this._memento.get<string>(REVISION_KEY) !== this._revision;
+            let toSave = data;
+            if (changedElsewhere) {
+                try {
+                    toSave = await mergeConcurrentChanges(this._base!, data, this.read(), 'another window or Settings Sync');
+                } catch (error) {
+                    this._onDidChange.fire(); // Load the other side's commands instead
+                    throw error;
+                }
+            }
+
+            const revision = crypto.randomUUID();
+            await this._memento.update(COMMANDS_KEY, toSave.commands);
+            await this._memento.update(FOLDERS_KEY, toSave.folders);
+            await this._memento.update(SCHEMA_VERSION_KEY, toSave.version);
+            await this._memento.update(REVISION_KEY, revision); // Last, so other windows see complete data
+            this._base = toSave;
+            this._revision = revision;
+            if (changedElsewhere) {
+                this._onDidChange.fire(); // Show the other side's changes too
+            }
+        } finally {
+            this._saving = false;
+        }
+    }
+
+    dispose(): void {
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._onDidChange.dispose();
+    }
+
+    private read(): StoredCommands {
+        return {
+            version: this._memento.get(SCHEMA_VERSION_KEY, 1),
+            commands: this._memento.get(COMMANDS_KEY, []),
+            folders: this._memento.get(FOLDERS_KEY, [])
+        };
+    }
+
+    private checkForExternalChange() {
+        if (!this._saving && this._base !== undefined && this._memento.get<string>(REVISION_KEY) !== this._revision) {
+            this._onDidChange.fire();
+        }
+    }
+}
+
+/**
+ * Stores a workspace folder's shared commands in `.vscode/commands.json`,
+ * and watches that file for edits made outside the extension (e.g., a `git pull`).
+ */
+export class WorkspaceFileCommandStore implements CommandStore {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    readonly uri: vscode.Uri;
+    private _watcher: vscode.FileSystemWatcher;
+    private _lastWrittenContent: string | undefined; // Used to ignore the watcher events caused by our own saves
+    private _base: StoredCommands | undefined;       // The data as last loaded or saved
+    private _baseContent: string | undefined;        // The file content it came from
+
+    constructor(folder: vscode.WorkspaceFolder) {
+        this.uri = vscode.Uri.joinPath(folder.uri, WORKSPACE_COMMANDS_FILE);
+        this._watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, WORKSPACE_COMMANDS_FILE));
+        this._watcher.onDidCreate(() => this.handleExternalChange());
+        this._watcher.onDidChange(() => this.handleExternalChange());
+        this._watcher.onDidDelete(() => this.handleExternalChange());
+    }
+
+    async load(): Promise<StoredCommands> {
+        const content = await this.readContent();
+        this._base = this.parse(content);
+        this._baseContent = content;
+        return this._base;
+    }
+
+    async save(data: StoredCommands): Promise<void> {
+        // The file may have changed since it was loaded, before the watcher told us (e.g., during a `git pull`)
+        const current = await this.readContent();
+        const changedElsewhere = this._base !== undefined && current !== this._baseContent;
+        let toSave = data;
+        if (changedElsewhere) {
+            try {
+                toSave = await mergeConcurrentChanges(this._base!, data, this.parse(current), WORKSPACE_COMMANDS_FILE);
+            } catch (error) {
+                this._onDidChange.fire(); // Load the file's commands instead
+                throw error;
+            }
+        }
+
+        const content = JSON.stringify({ version: toSave.version, folders: toSave.folders, commands: toSave.commands }, null, 2) + '\n';
+        this._lastWrittenContent = content;
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.uri, '..'));
+        await vscode.workspace.fs.writeFile(this.uri, Buffer.from(content, 'utf8'));
+        this._base = toSave;
+        this._baseContent = content;
+        if (changedElsewhere) {
+            this._onDidChange.fire(); // Show the changes from the file too
+        }
+    }
+
+    dispose(): void {
+        this._watcher.dispose();
+        this._onDidChange.dispose();
+    }
+
+    private async handleExternalChange() {
+        const content = await this.readContent();
+        if (content !== undefined && content === this._lastWrittenContent) {
+            return; // Our own write
+        }
+        this._lastWrittenContent = undefined;
+        this._onDidChange.fire();
+    }
+
+    // Accepts a bare array too, so an exported file can be dropped in as-is
+    private parse(content: string | undefined): StoredCommands {
+        if (content === undefined || content.trim() === '') {
+            return { version: CURRENT_SCHEMA_VERSION, commands: [], folders: [] };
+        }
+        try {
+            return parseCommandsFile(content);
+        } catch (error: any) {
+            throw new Error(`Invalid format in ${WORKSPACE_COMMANDS_FILE}. ${error.message}`);
+        }
+    }
+
+    private async readContent(): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(this.uri)).toString('utf8');
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+}
+
+// Merges a save with changes stored elsewhere since the data was loaded, and asks which version to keep
+// of commands changed on both sides. Throws if the user doesn't decide.
+async function mergeConcurrentChanges(base: StoredCommands, ours: StoredCommands, theirs: StoredCommands, elsewhere: string): Promise<StoredCommands> {
+    const { merged, conflicts } = mergeStoredCommands(base, ours, theirs);
+    if (conflicts.length === 0) {
+        return merged;
+    }
+
+    const names = conflicts.slice(0, 5).map(conflict => {
+        const item = (conflict.ours ?? conflict.theirs)!;
+        return `"${item.name || item.command}"`;
+    });
+    const choice = await vscode.window.showWarningMessage(
+        `${conflicts.length === 1 ? 'A command was' : `${conflicts.length} commands were`} also changed in ${elsewhere}: ${names.join(', ')}${conflicts.length > names.length ? ', ...' : ''}`,
+        { modal: true, detail: 'Keep your version or the other one? All other changes from both sides are kept.' },
+        'Keep Mine',
+        'Keep Theirs'
+    );
+    if (choice === undefined) {
+        throw new Error(`Not saved, because the same commands were changed in ${elsewhere}. The other changes were loaded.`);
+    }
+    return choice === 'Keep Mine' ? merged : mergeStoredCommands(base, ours, theirs, 'theirs').merged;
+}
+
+// Compares two versions of a command (either may be missing), regardless of the order of their fields
+function isSameCommand(a: CommandItem | undefined, b: CommandItem | undefined): boolean {
+    return canonicalJson(a) === canonicalJson(b);
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (typeof value === 'object' && value !== null) {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as { [key: string]: unknown })[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as { [key: string]: unknown })[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CommandItem } from './extension';
+
+const REVIEWED_KEY = 'reviewedCommands'; // globalState key
+const PENDING_KEY = 'importedCommands';  // globalState key
+
+/**
+ * Remembers which commands the user has reviewed, in global state by command ID.
+ * Workspace commands are trusted only in the exact version that was reviewed (or written by the user),
+ * so changes pulled in from `.vscode/commands.json` need a new review. Imported commands wait for a
+ * review in any scope.
+ */
+export class CommandTrust {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _memento: vscode.Memento;
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+    }
+
+    /**
+     * @param shared Whether the command comes from a workspace file, which others can change.
+     */
+    isTrusted(item: CommandItem, shared: boolean): boolean {
+        if (this._memento.get<string[]>(PENDING_KEY, []).includes(item.id)) {
+            return false;
+        }
+        return !shared || this._memento.get<{ [id: string]: string }>(REVIEWED_KEY, {})[item.id] === fingerprint(item);
+    }
+
+    // Trusts the commands as they are now
+    async markReviewed(items: CommandItem[]): Promise<void> {
+        const ids = items.map(item => item.id);
+        const reviewed = { ...this._memento.get<{ [id: string]: string }>(REVIEWED_KEY, {}) };
+        items.forEach(item => reviewed[item.id] = fingerprint(item));
+        const pending = this._memento.get<string[]>(PENDING_KEY, []).filter(id => !ids.includes(id));
+        // Both are read before either is written, so a concurrent markImported is not undone
+        await Promise.all([this._memento.update(REVIEWED_KEY, reviewed), this._memento.update(PENDING_KEY, pending)]);
+        this._onDidChange.fire();
+    }
+
+    // Marks imported commands as waiting for a review
+    async markImported(ids: string[]): Promise<void> {
+        const pending = this._memento.get<string[]>(PENDING_KEY, []).filter(id => !ids.includes(id));
+        await this._memento.update(PENDING_KEY, [...pending, ...ids]);
+        this._onDidChange.fire();
+    }
+}
+
+// Covers everything that changes what a command does when it runs, and whether it asks first, but not its name or folder
+function fingerprint(item: CommandItem): string {
+    const { command, cwd, env, shell, shellArgs, runMode, steps, interpreter, platforms, requiresConfirmation } = item;
+    return crypto.createHash('sha256').update(JSON.stringify({ command, cwd, env, shell, shellArgs, runMode, steps, interpreter, platforms, requiresConfirmation })).digest('hex');
+}
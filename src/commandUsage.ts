@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+
+const FAVORITES_KEY = 'favoriteCommands'; // globalState key
+const RUN_STATS_KEY = 'commandRunStats';  // globalState key
+
+/**
+ * The globalState keys synced by Settings Sync. Run counts stay on each machine.
+ */
+export const SYNCED_USAGE_KEYS = [FAVORITES_KEY];
+
+/**
+ * How often and when a saved command was last run.
+ */
+export interface RunStats {
+    runCount: number;
+    lastRunAt: number;     // Milliseconds since the epoch
+    lastExitCode?: number; // Result of the last run, if known: background runs and sequences report one, terminals don't
+}
+
+/**
+ * Persists the user's favorite commands and run stats in global state, by command ID.
+ * Kept out of the command data, so favoriting a shared workspace command doesn't change `.vscode/commands.json`.
+ */
+export class CommandUsage {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _memento: vscode.Memento;
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+    }
+
+    isFavorite(commandId: string): boolean {
+        return this._memento.get<string[]>(FAVORITES_KEY, []).includes(commandId);
+    }
+
+    async setFavorite(commandIds: string[], favorite: boolean): Promise<void> {
+        const favorites = this._memento.get<string[]>(FAVORITES_KEY, []).filter(id => !commandIds.includes(id));
+        await this._memento.update(FAVORITES_KEY, favorite ? [...favorites, ...commandIds] : favorites);
+        this._onDidChange.fire();
+    }
+
+    getRunStats(commandId: string): RunStats | undefined {
+        return this._memento.get<{ [id: string]: RunStats }>(RUN_STATS_KEY, {})[commandId];
+    }
+
+    // Run stats of all commands, by command ID
+    getAllRunStats(): { [id: string]: RunStats } {
+        return this._memento.get<{ [id: string]: RunStats }>(RUN_STATS_KEY, {});
+    }
+
+    // Starting a run forgets the result of the previous one
+    async recordRun(commandId: string): Promise<void> {
+        const stats = this._memento.get<{ [id: string]: RunStats }>(RUN_STATS_KEY, {});
+        const runCount = (stats[commandId]?.runCount ?? 0) + 1;
+        await this._memento.update(RUN_STATS_KEY, { ...stats, [commandId]: { runCount, lastRunAt: Date.now() } });
+        this._onDidChange.fire();
+    }
+
+    // Remembers how the last recorded run of a command ended
+    async recordExitCode(commandId: string, exitCode: number): Promise<void> {
+        const stats = this._memento.get<{ [id: string]: RunStats }>(RUN_STATS_KEY, {});
+        if (!stats[commandId]) { return; } // Not run as a saved command, e.g. a step of a sequence
+        await this._memento.update(RUN_STATS_KEY, { ...stats, [commandId]: { ...stats[commandId], lastExitCode: exitCode } });
+        this._onDidChange.fire();
+    }
+}
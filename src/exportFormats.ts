@@ -0,0 +1,352 @@
+import * as jsonc from 'jsonc-parser';
+import { CommandItem, CommandPlatform, PlatformVariant, SequenceStep } from './extension';
+import { Placeholder, replacePlaceholders } from './placeholders';
+import { parseArguments } from './runSettings';
+import { formatCommandLine, getExecutableName, PLATFORMS, selectVariant } from './scripts';
+
+/**
+ * The `tasks` and `inputs` of a `.vscode/tasks.json`.
+ */
+export interface ExportedTasks {
+    tasks: { [key: string]: unknown }[];
+    inputs: { [key: string]: unknown }[];
+}
+
+const TASK_FORMATTING: jsonc.FormattingOptions = { insertSpaces: true, tabSize: 4 };
+// The properties of a task that override its command on one operating system
+const TASK_PLATFORMS: { [platform in CommandPlatform]: string } = { linux: 'linux', darwin: 'osx', win32: 'windows' };
+
+/**
+ * Writes commands as a standalone bash script with one function per command.
+ * Prompted placeholders become `read` prompts, `${workspaceFolder}` becomes `$WORKSPACE_FOLDER`,
+ * and sequences call the functions of their steps. Commands with platform variants use their Linux variant,
+ * scripts are passed to their interpreter as a heredoc, and commands without a Linux variant only report that.
+ */
+export function toShellScript(items: CommandItem[], date: Date = new Date()): string {
+    const functionNames = uniqueNames(items, name => `cmd_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'command'}`);
+    const commandNames = uniqueNames(items, name => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'command', '-');
+    const byId = new Map(items.map(item => [item.id, item]));
+
+    const lines = [
+        '#!/usr/bin/env bash',
+        `# Commands exported from Commands Viewer on ${date.toISOString().slice(0, 10)}.`,
+        '# Usage: run with the names of one or more commands, or without arguments to list them.',
+        '# Relative working directories and ${workspaceFolder} use WORKSPACE_FOLDER, which defaults to the current directory.',
+        '',
+        'WORKSPACE_FOLDER="${WORKSPACE_FOLDER:-$PWD}"',
+        ''
+    ];
+
+    for (const item of items) {
+        const label = item.name || item.command;
+        lines.push(`# ${label.split('\n')[0]}`);
+        if (item.description) {
+            lines.push(...item.description.split('\n').map(line => `# ${line}`));
+        }
+        if (item.shell) {
+            lines.push(`# Runs with ${[item.shell, ...(item.shellArgs ?? [])].join(' ')} in Commands Viewer`);
+        }
+        lines.push(`${functionNames.get(item.id)}() {`);
+        if (item.kind === 'sequence') {
+            lines.push(...sequenceBody(item.steps ?? [], id => byId.has(id) ? functionNames.get(id) : undefined).map(line => `    ${line}`));
+        } else {
+            lines.push(...commandBody(item, '    '));
+        }
+        lines.push('}', '');
+    }
+
+    lines.push(
+        'usage() {',
+        '    echo "Usage: $0 <command>..."',
+        '    echo',
+        '    echo "Commands:"',
+        ...items.map(item => `    echo ${doubleQuote(`  ${commandNames.get(item.id)!.padEnd(24)} ${summarize(item)}`)}`),
+        '}',
+        '',
+        'if [ $# -eq 0 ]; then',
+        '    usage',
+        '    exit 1',
+        'fi',
+        '',
+        'for name in "$@"; do',
+        '    case "$name" in',
+        ...items.map(item => `        ${commandNames.get(item.id)}) ${functionNames.get(item.id)} || exit $? ;;`),
+        '        *) echo "Unknown command: $name" >&2; usage >&2; exit 1 ;;',
+        '    esac',
+        'done',
+        ''
+    );
+    return lines.join('\n');
+}
+
+// Prompts for the placeholders, then runs the command in a subshell with its directory and environment.
+// Lines are indented, except for heredoc bodies, which are kept exactly as written.
+function commandBody(item: CommandItem, indent: string): string[] {
+    const variant = selectVariant(item, 'linux');
+    if (!variant) {
+        return [`${indent}echo ${doubleQuote(`"${item.name || item.command}" has no Linux variant.`)} >&2`, `${indent}return 1`];
+    }
+
+    const prompts: string[] = [];
+    const variables = new Map<string, string>(); // Placeholder name -> shell variable
+    const references: string[] = []; // What each placeholder becomes, in order
+    // Placeholders are marked first, so the text around them can be escaped for a heredoc
+    const marked = replacePlaceholders(variant.command, placeholder => {
+        references.push(toShellReference(placeholder));
+        return `\0${references.length - 1}\0`;
+    });
+    const fill = (text: string) => text.replace(/\0(\d+)\0/g, (_, index: string) => references[Number(index)]);
+
+    function toShellReference(placeholder: Placeholder): string {
+        switch (placeholder.name) {
+            case 'workspaceFolder':
+                return '$WORKSPACE_FOLDER';
+            case 'workspaceFolderBasename':
+                return '$(basename "$WORKSPACE_FOLDER")';
+            case 'pathSeparator':
+                return '/';
+            case 'env':
+                return /^[A-Za-z_]\w*$/.test(placeholder.argument ?? '') ? `\${${placeholder.argument}}` : '';
+        }
+
+        // Everything else, including editor-dependent built-ins, is asked for once per run
+        const key = placeholder.name === 'config' ? `config:${placeholder.argument}` : placeholder.name;
+        let variable = variables.get(key);
+        if (!variable) {
+            variable = `arg_${key.replace(/\W+/g, '_')}`;
+            variables.set(key, variable);
+            prompts.push(...promptLines(placeholder, key, variable));
+        }
+        return `\${${variable}}`;
+    }
+
+    const lines = variables.size > 0 ? [`local ${Array.from(variables.values()).join(' ')}`, ...prompts] : [];
+    lines.push('(');
+    if (item.cwd) {
+        lines.push(`    cd ${shellPath(item.cwd)} || exit`);
+    }
+    for (const [name, value] of Object.entries(item.env ?? {})) {
+        lines.push(`    export ${name}=${singleQuote(value)}`);
+    }
+    if (!variant.interpreter) {
+        lines.push(...fill(marked).split('\n').map(line => `    ${line}`), ')');
+        return lines.map(line => `${indent}${line}`);
+    }
+
+    // A quoted delimiter keeps the script as it is; with placeholders, everything but them is escaped instead
+    const delimiter = uniqueDelimiter(marked);
+    const body = references.length > 0 ? fill(marked.replace(/[\\$`]/g, '\\$&')) : marked;
+    const commandLine = formatCommandLine(getStdinCommandLine(variant.interpreter), 'bash');
+    lines.push(`    ${commandLine} <<${references.length > 0 ? delimiter : `'${delimiter}'`}`);
+    return [...lines.map(line => `${indent}${line}`), ...body.split('\n'), delimiter, `${indent})`];
+}
+
+// Interpreters read a script from standard input when given "-" as the file
+function getStdinCommandLine(interpreter: string): string[] {
+    const [executable, ...args] = parseArguments(interpreter);
+    switch (getExecutableName(executable)) {
+        case 'pwsh':
+        case 'powershell':
+            return [executable, ...args, '-Command', '-'];
+        default:
+            return [executable, ...args, '-'];
+    }
+}
+
+// "EOF", or "EOF_2", ... if the script has a line like that itself
+function uniqueDelimiter(script: string): string {
+    const lines = new Set(script.split('\n').map(line => line.trim()));
+    let delimiter = 'EOF';
+    for (let counter = 2; lines.has(delimiter); counter++) {
+        delimiter = `EOF_${counter}`;
+    }
+    return delimiter;
+}
+
+function promptLines(placeholder: Placeholder, label: string, variable: string): string[] {
+    const hint = placeholder.choices ? ` (${placeholder.choices.join(', ')})` : placeholder.defaultValue ? ` [${placeholder.defaultValue}]` : '';
+    const lines = [`read -r -p ${doubleQuote(`${label}${hint}: `)} ${variable}`];
+    if (placeholder.defaultValue) {
+        lines.push(`${variable}="\${${variable}:-${escapeForDoubleQuotes(placeholder.defaultValue)}}"`);
+    }
+    return lines;
+}
+
+// Steps run one after another; a step marked parallel is started in the background together with the step before it
+function sequenceBody(steps: SequenceStep[], functionOf: (id: string) => string | undefined): string[] {
+    const lines: string[] = [];
+    steps.forEach((step, index) => {
+        const name = functionOf(step.commandId);
+        if (!name) {
+            lines.push(`echo ${doubleQuote(`Step ${index + 1} refers to a command that was not exported.`)} >&2`, 'return 1');
+            return;
+        }
+        const next = steps[index + 1];
+        if (step.parallel || next?.parallel) {
+            lines.push(`${name} &`);
+            if (!next?.parallel) {
+                lines.push('wait');
+            }
+        } else {
+            lines.push(step.continueOnError ? name : `${name} || return`);
+        }
+    });
+    return lines.length > 0 ? lines : [':'];
+}
+
+/**
+ * Converts commands to tasks for `.vscode/tasks.json`. Prompted placeholders become `${input:...}`
+ * variables with matching inputs; built-ins keep their names, which tasks support as well.
+ * Platform variants become the task's `linux`, `osx` and `windows` commands,
+ * and scripts are passed to their interpreter as an inline argument (`python3 -c '...'`).
+ */
+export function toTasks(items: CommandItem[]): ExportedTasks {
+    const labels = uniqueNames(items, name => name, ' ');
+    const inputs = new Map<string, { [key: string]: unknown }>();
+    const tasks = items.map(item => {
+        const label = labels.get(item.id)!;
+        if (item.kind === 'sequence') {
+            const steps = item.steps ?? [];
+            return {
+                label,
+                detail: item.description,
+                dependsOn: steps.map(step => labels.get(step.commandId)).filter(stepLabel => stepLabel !== undefined),
+                dependsOrder: steps.slice(1).every(step => step.parallel) ? 'parallel' : 'sequence',
+                problemMatcher: []
+            };
+        }
+
+        const toTaskCommand = (text: string) => replacePlaceholders(text, placeholder => {
+            if (placeholder.builtin) {
+                return placeholder.argument !== undefined ? `\${${placeholder.name}:${placeholder.argument}}` : `\${${placeholder.name}}`;
+            }
+            if (!inputs.has(placeholder.name)) {
+                inputs.set(placeholder.name, placeholder.choices
+                    ? { id: placeholder.name, type: 'pickString', description: `Value for ${placeholder.name}`, options: placeholder.choices }
+                    : { id: placeholder.name, type: 'promptString', description: `Value for ${placeholder.name}`, default: placeholder.defaultValue });
+            }
+            return `\${input:${placeholder.name}}`;
+        });
+        const toTaskCommandLine = (variant: PlatformVariant) => variant.interpreter
+            ? toInlineScript(variant.interpreter, toTaskCommand(variant.command))
+            : { command: toTaskCommand(variant.command) };
+        const variants = Object.fromEntries(PLATFORMS
+            .filter(platform => item.platforms?.[platform])
+            .map(platform => [TASK_PLATFORMS[platform], toTaskCommandLine(item.platforms![platform]!)]));
+        const options = {
+            cwd: item.cwd ? taskPath(item.cwd) : undefined,
+            env: item.env,
+            shell: item.shell ? { executable: item.shell, args: item.shellArgs } : undefined
+        };
+        return {
+            label,
+            detail: item.description,
+            type: 'shell',
+            // Commands with only platform variants have nothing to run elsewhere
+            ...(item.command.trim() !== '' ? toTaskCommandLine({ command: item.command, interpreter: item.interpreter }) : {}),
+            ...variants,
+            options: options.cwd || options.env || options.shell ? options : undefined,
+            problemMatcher: []
+        };
+    });
+    return { tasks, inputs: Array.from(inputs.values()) };
+}
+
+// The interpreter with the script as an argument, quoted by the task's shell
+function toInlineScript(interpreter: string, script: string): { command: string; args: unknown[] } {
+    const [executable, ...args] = parseArguments(interpreter);
+    return { command: executable, args: [...args, getInlineScriptFlag(executable), { value: script, quoting: 'strong' }] };
+}
+
+// The option that makes an interpreter run its next argument as code
+function getInlineScriptFlag(executable: string): string {
+    switch (getExecutableName(executable)) {
+        case 'node':
+        case 'ruby':
+        case 'perl':
+        case 'osascript':
+            return '-e';
+        case 'pwsh':
+        case 'powershell':
+            return '-Command';
+        case 'cmd':
+            return '/c';
+        default:
+            return '-c'; // Python and the shells
+    }
+}
+
+/**
+ * Adds exported tasks to the contents of an existing tasks.json, keeping its comments and formatting.
+ * Tasks and inputs with the same label or ID are replaced.
+ */
+export function mergeTasksJson(text: string, exported: ExportedTasks): string {
+    if (text.trim() === '') {
+        const inputs = exported.inputs.length > 0 ? exported.inputs : undefined;
+        return JSON.stringify({ version: '2.0.0', tasks: exported.tasks, inputs }, null, TASK_FORMATTING.tabSize) + '\n';
+    }
+
+    const upsert = (property: 'tasks' | 'inputs', key: string, entries: { [key: string]: unknown }[]) => {
+        for (const entry of entries) {
+            const current = jsonc.parse(text)?.[property];
+            // Replace an entry with the same key, or append (index -1)
+            const path = Array.isArray(current)
+                ? [property, current.findIndex((other: { [key: string]: unknown } | null) => other?.[key] === entry[key])]
+                : [property];
+            const value = Array.isArray(current) ? entry : [entry];
+            text = jsonc.applyEdits(text, jsonc.modify(text, path, value, { formattingOptions: TASK_FORMATTING }));
+        }
+    };
+    upsert('tasks', 'label', exported.tasks);
+    upsert('inputs', 'id', exported.inputs);
+    return text;
+}
+
+// Display names made unique by appending a counter
+function uniqueNames(items: CommandItem[], format: (name: string) => string, separator: string = '_'): Map<string, string> {
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+    for (const item of items) {
+        const base = format(item.name || item.command.split('\n')[0]);
+        let name = base;
+        for (let counter = 2; used.has(name); counter++) {
+            name = separator === ' ' ? `${base} (${counter})` : `${base}${separator}${counter}`;
+        }
+        used.add(name);
+        names.set(item.id, name);
+    }
+    return names;
+}
+
+function summarize(item: CommandItem): string {
+    const text = item.description || (item.kind === 'sequence' ? `Sequence of ${item.steps?.length ?? 0} steps` : item.command);
+    const line = text.split('\n')[0];
+    return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+}
+
+// Working directories as in Commands Viewer: "~" is the home directory, relative paths start at the workspace folder
+function shellPath(cwd: string): string {
+    if (cwd === '~' || cwd.startsWith('~/')) {
+        return `"$HOME"${singleQuote(cwd.substring(1))}`;
+    }
+    return cwd.startsWith('/') ? singleQuote(cwd) : `"$WORKSPACE_FOLDER"/${singleQuote(cwd)}`;
+}
+
+function taskPath(cwd: string): string {
+    if (cwd === '~' || cwd.startsWith('~/')) {
+        return `\${userHome}${cwd.substring(1)}`;
+    }
+    return /^([A-Za-z]:)?[\/\\]/.test(cwd) ? cwd : `\${workspaceFolder}/${cwd}`;
+}
+
+function singleQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function doubleQuote(value: string): string {
+    return `"${escapeForDoubleQuotes(value)}"`;
+}
+
+function escapeForDoubleQuotes(value: string): string {
+    return value.replace(/[\\"$`]/g, '\\$&');
+}
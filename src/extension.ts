@@ -1,14 +1,83 @@
 import * as vscode from 'vscode';
-import { CommandFileSystemProvider, commandFsScheme } from './commandFs';
+import { CommandFileSystemProvider, CommandScopeInfo, commandFsScheme, normalizeFolderPath, toUri, USER_SCOPE } from './commandFs';
+import { PlaceholderResolver } from './placeholders';
+import { CommandRunner, RunRequest, RunState } from './commandRunner';
+import { RunHistory, RunHistoryEntry, RunHistoryNode, RunHistoryProvider, formatDuration } from './runHistory';
+import { editRunSettings, resolveWorkingDirectory } from './runSettings';
+import { findParallelDuplicate, PreparedStep, SequenceRunner, StepProgress } from './sequences';
+import { COMMAND_LANGUAGE_ID, CommandLanguageFeatures } from './commandLanguage';
+import { applyImport, classifyImport, downloadCommandsFile, ImportCandidate, pickExportFormat, pickExportItems, pickImportCandidates, previewImport } from './importExport';
+import { mergeTasksJson, toShellScript, toTasks } from './exportFormats';
+import { CommandUsage, RunStats, SYNCED_USAGE_KEYS } from './commandUsage';
+import { matchesFilter, SortOrder, sortCommands } from './commandFilter';
+import { CommandTrust } from './commandTrust';
+import { ConfirmationPolicy, findDangerousMatch, needsConfirmation } from './runPolicy';
+import { CommandsViewerApi, createApi } from './api';
+import { CommandsUriHandler } from './uriHandler';
+import { CommandVersion, DeletedCommand, UndoStack } from './commandHistory';
+import { SYNCED_COMMAND_KEYS } from './commandStore';
+import { getPlatformLabel, PLATFORM_LABELS, PLATFORMS, selectVariant } from './scripts';
+import { ARCHIVE_FOLDER, CommandInsightsProvider, CommandStatusDecorations, formatRunStats, getCommandStatus, getSelectedCommands, InsightsTreeNode, ScopedCommand } from './commandInsights';
 import * as fs from 'fs'; // Node.js file system module
 import * as path from 'path'; // Node.js path module
 
 // Defines the structure for a command item stored in global state
 export interface CommandItem {
-    name?: string;    // Display name of the command (optional)
-    command: string; // The shell command to execute
+    id: string;          // Stable unique identifier, assigned on creation
+    name?: string;       // Display name of the command (optional)
+    description?: string; // Longer explanation, shown in the tooltip
+    tags?: string[];     // Free-form labels, e.g. "build" or "k8s"
+    command: string;     // The shell command to execute
+    folder?: string;     // Slash-separated folder path (e.g., "Kubernetes/Logs"), root if omitted
+    createdAt: number;   // Creation time, in milliseconds since the epoch
+    modifiedAt: number;  // Last modification time, in milliseconds since the epoch
+    runMode?: RunMode;   // How to run the command, defaults to the "commandsViewer.defaultRunMode" setting
+    cwd?: string;        // Working directory, absolute or relative to the workspace folder
+    env?: { [name: string]: string }; // Extra environment variables
+    shell?: string;      // Shell to run the command with (e.g., "bash", "zsh", "pwsh", "sh" or a path)
+    shellArgs?: string[]; // Arguments for `shell`
+    kind?: 'command' | 'sequence'; // A plain command if omitted; sequences have an empty `command`
+    steps?: SequenceStep[]; // The commands a sequence runs, in order
+    requiresConfirmation?: boolean; // Always (true) or never (false) ask before running, overriding "commandsViewer.confirmBeforeRun"
+    interpreter?: string; // Runs `command` as a script file with this program (e.g., "bash", "python3", "pwsh") instead of typing it into a terminal
+    platforms?: { [platform in CommandPlatform]?: PlatformVariant }; // Replaces `command` on these operating systems
 }
 
+// An operating system a command can have its own variant for, as in `process.platform`
+export type CommandPlatform = 'linux' | 'darwin' | 'win32';
+
+// What a command runs on one operating system instead of its own command
+export interface PlatformVariant {
+    command: string;
+    interpreter?: string; // Runs `command` as a script file with this program
+}
+
+// One step of a sequence: a saved command of the same scope, referenced by ID
+export interface SequenceStep {
+    commandId: string;
+    continueOnError?: boolean; // Keep going if this step fails, instead of stopping the sequence
+    parallel?: boolean;        // Start together with the previous step instead of after it
+}
+
+// Where a command runs:
+// - activeTerminal:    the active terminal, or a new one if there is none
+// - dedicatedTerminal: a terminal of its own, reused between runs
+// - newTerminal:       a new terminal every time
+// - background:        a child process whose output goes to the "Commands Viewer" output channel
+export type RunMode = 'activeTerminal' | 'dedicatedTerminal' | 'newTerminal' | 'background';
+
+const RUN_MODE_LABELS: { [mode in RunMode]: string } = {
+    activeTerminal: 'Active Terminal',
+    dedicatedTerminal: 'Dedicated Terminal',
+    newTerminal: 'New Terminal',
+    background: 'Background'
+};
+
+// The fields provided when creating a command; the ID and timestamps are assigned by CommandFileSystemProvider
+export type NewCommandItem = Omit<CommandItem, 'id' | 'createdAt' | 'modifiedAt'>;
+
+const TREE_MIME_TYPE = 'application/vnd.code.tree.commandsviewer'; // Drag-and-drop payload type
+
 /**
  * Represents a single command file in the Tree View.
  * Clicking it will open the virtual file in an editor.
@@ -16,68 +85,461 @@ export interface CommandItem {
 class CommandNode extends vscode.TreeItem {
     constructor(
         public readonly item: CommandItem,
-        public readonly fileName: string // Store the actual filename used by the FS provider
+        public readonly fileName: string, // Store the actual filename used by the FS provider
+        public readonly scopeId: string = USER_SCOPE, // The scope (URI authority) the command is stored in
+        runState?: RunState, // Live state of background runs
+        stats?: RunStats     // How often and when the command ran, and how its last run ended
     ) {
-        // Use the optional name, or fallback to the command itself for display
-        const label = item.name && item.name.trim() !== '' ? item.name : item.command;
+        // Use the optional name, or fallback to the command itself for display.
+        // Commands with variants show the one for this operating system.
+        const variant = selectVariant(item);
+        const command = variant?.command ?? item.command;
+        const label = item.name && item.name.trim() !== '' ? item.name : command;
         super(label, vscode.TreeItemCollapsibleState.None);
-        this.tooltip = item.command; // Show the command string as a tooltip
-        this.description = item.name ? item.command : undefined; // Display command as description only if name exists
+        this.id = `command:${scopeId}:${item.id}`;
+        this.tooltip = describeCommand(item); // Show the command string (and its run settings) as a tooltip
+        // Display command as description only if name exists, followed by the run stats
+        this.description = [...(item.name ? [command] : []), ...(stats ? [formatRunStats(stats)] : [])].join(' · ') || undefined;
+        this.resourceUri = toUri(fileName, scopeId, item.id); // For the status decorations
 
-        this.iconPath = new vscode.ThemeIcon('terminal'); // A terminal icon
+        // Scripts get a file icon, others a terminal icon, colored if the last run failed or the command is stale
+        const status = getCommandStatus(item, stats);
+        const color = status === 'failed' ? new vscode.ThemeColor('testing.iconFailed') : status === 'stale' ? new vscode.ThemeColor('disabledForeground') : undefined;
+        this.iconPath = new vscode.ThemeIcon(variant?.interpreter ? 'file-code' : 'terminal', color);
         this.contextValue = 'commandItem';
 
+        if (!variant) {
+            // Can't run on this operating system, which matters more than how it ran elsewhere
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+            this.description = [...(stats ? [formatRunStats(stats)] : []), `No variant for ${getPlatformLabel()}`].join(' · ');
+        } else if (runState?.running) {
+            // Background runs show a spinner, then the outcome
+            this.iconPath = new vscode.ThemeIcon('sync~spin');
+            this.description = 'running…';
+            this.contextValue = 'commandItem.running';
+        } else if (runState?.exitCode !== undefined) {
+            this.iconPath = runState.exitCode === 0
+                ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+                : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+            this.description = `exit ${runState.exitCode} · ${formatDuration(runState.duration ?? 0)}`;
+        }
+
         // When clicked, open the virtual file in an editor
         this.command = {
             command: 'vscode.open',
             title: 'Open Command',
-            arguments: [vscode.Uri.parse(`${commandFsScheme}:/${fileName}`)]
+            arguments: [toUri(fileName, scopeId, item.id)]
         };
     }
 }
 
+/**
+ * Represents a folder of commands in the Tree View.
+ */
+class FolderNode extends vscode.TreeItem {
+    constructor(
+        public readonly folderPath: string, // Path relative to the scope root (e.g., "Kubernetes/Logs")
+        public readonly scopeId: string = USER_SCOPE
+    ) {
+        super(folderPath.substring(folderPath.lastIndexOf('/') + 1), vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `folder:${scopeId}:${folderPath}`; // Keeps the expanded state across refreshes
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.contextValue = 'folderItem';
+    }
+}
+
+/**
+ * Represents the root of a scope ("Workspace" or "User") in the Tree View.
+ * Behaves like a folder with an empty path.
+ */
+class ScopeNode extends FolderNode {
+    constructor(public readonly scope: CommandScopeInfo) {
+        super('', scope.id);
+        this.label = scope.label;
+        this.id = `scope:${scope.id}`;
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+        this.description = scope.workspaceFolder && scope.label !== 'Workspace' ? 'Workspace' : undefined;
+        this.tooltip = scope.workspaceFolder ? scope.workspaceFolder.uri.fsPath : 'Your personal commands';
+        if (scope.loadError) {
+            this.description = 'Failed to load';
+            this.tooltip = scope.loadError;
+            this.iconPath = new vscode.ThemeIcon('warning');
+        } else {
+            this.iconPath = new vscode.ThemeIcon(scope.workspaceFolder ? 'root-folder' : 'account');
+        }
+        this.contextValue = 'scopeItem';
+    }
+}
+
+/**
+ * Represents the "Favorites" section at the top of the Tree View, listing the user's favorite commands of all scopes.
+ */
+class FavoritesNode extends vscode.TreeItem {
+    constructor() {
+        super('Favorites', vscode.TreeItemCollapsibleState.Expanded);
+        this.id = 'favorites';
+        this.iconPath = new vscode.ThemeIcon('star-full');
+        this.tooltip = 'Your favorite commands. Drop commands here to add them.';
+        this.contextValue = 'favoritesItem';
+    }
+}
+
+/**
+ * Represents the "Recently Deleted" section at the bottom of the Tree View, with the removed commands
+ * of all open scopes.
+ */
+class TrashNode extends vscode.TreeItem {
+    constructor(count: number) {
+        super('Recently Deleted', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = 'recentlyDeleted';
+        this.description = `${count}`;
+        this.iconPath = new vscode.ThemeIcon('trash');
+        this.tooltip = 'Removed commands, which can be restored from here.';
+        this.contextValue = 'trashItem';
+    }
+}
+
+/**
+ * Represents a removed command in the "Recently Deleted" section.
+ */
+class DeletedCommandNode extends vscode.TreeItem {
+    constructor(public readonly entry: DeletedCommand & { scopeId: string }, scopeLabel?: string) {
+        super(entry.item.name || entry.item.command, vscode.TreeItemCollapsibleState.None);
+        this.id = `deleted:${entry.item.id}`;
+        this.description = [...(scopeLabel ? [scopeLabel] : []), new Date(entry.deletedAt).toLocaleString()].join(' · ');
+        this.tooltip = describeCommand(entry.item);
+        this.iconPath = new vscode.ThemeIcon(entry.item.kind === 'sequence' ? 'list-ordered' : 'terminal');
+        this.contextValue = 'deletedItem';
+    }
+}
+
+/**
+ * Represents a sequence in the Tree View. Its children are the steps,
+ * which show the progress of the current or last run.
+ */
+class SequenceNode extends CommandNode {
+    constructor(item: CommandItem, fileName: string, scopeId: string, running: boolean) {
+        super(item, fileName, scopeId);
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        const stepCount = item.steps?.length ?? 0;
+        this.description = running ? 'running…' : `${stepCount} step${stepCount === 1 ? '' : 's'}`;
+        this.tooltip = `Sequence of ${stepCount} saved command${stepCount === 1 ? '' : 's'}`;
+        this.iconPath = new vscode.ThemeIcon(running ? 'sync~spin' : 'list-ordered');
+        this.contextValue = running ? 'sequenceItem.running' : 'sequenceItem';
+        this.command = undefined; // Sequences have no file content worth opening
+    }
+}
+
+/**
+ * Represents one step of a sequence in the Tree View.
+ * Clicking it opens the referenced command.
+ */
+class StepNode extends vscode.TreeItem {
+    constructor(
+        public readonly sequence: CommandItem,
+        public readonly scopeId: string,
+        public readonly index: number,
+        target: { item: CommandItem; uri: vscode.Uri } | undefined, // The referenced command, if it still exists
+        progress?: StepProgress
+    ) {
+        const step = sequence.steps![index];
+        super(target ? target.item.name || target.item.command : 'Missing command', vscode.TreeItemCollapsibleState.None);
+        this.id = `step:${scopeId}:${sequence.id}:${index}`;
+        this.description = [
+            ...(step.parallel ? ['parallel'] : []),
+            ...(step.continueOnError ? ['continue on failure'] : []),
+            ...(progress?.exitCode !== undefined ? [`exit ${progress.exitCode}`] : []),
+            ...(progress?.reason ? [progress.reason] : [])
+        ].join(' · ') || undefined;
+        this.tooltip = target ? describeCommand(target.item) : 'The command this step refers to was removed.';
+        this.iconPath = target ? getStepIcon(progress) : new vscode.ThemeIcon('warning');
+        this.contextValue = 'stepItem';
+        if (target) {
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Command',
+                arguments: [target.uri]
+            };
+        }
+    }
+}
+
+type CommandsTreeNode = CommandNode | FolderNode | StepNode | FavoritesNode | TrashNode | DeletedCommandNode;
+
+// A dragged tree node, identified by its scope and path (and ID for commands)
+interface DraggedEntry {
+    scopeId: string;
+    path: string;
+    id?: string;
+}
+
 /**
  * Provides data to the 'commandsViewer' Tree View.
  * It now works in conjunction with CommandFileSystemProvider.
  */
-export class CommandsProvider implements vscode.TreeDataProvider<CommandNode> {
-    private _onDidChangeTreeData: vscode.EventEmitter<CommandNode | undefined | null | void> = new vscode.EventEmitter<CommandNode | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<CommandNode | undefined | null | void> = this._onDidChangeTreeData.event;
+export class CommandsProvider implements vscode.TreeDataProvider<CommandsTreeNode>, vscode.TreeDragAndDropController<CommandsTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<CommandsTreeNode | undefined | null | void> = new vscode.EventEmitter<CommandsTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<CommandsTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    readonly dropMimeTypes = [TREE_MIME_TYPE];
+    readonly dragMimeTypes = [TREE_MIME_TYPE];
 
     private _commandFsProvider: CommandFileSystemProvider;
+    private _placeholderResolver: PlaceholderResolver;
+    private _runner: CommandRunner;
+    private _sequenceRunner: SequenceRunner;
+    private _usage: CommandUsage;
+    private _trust: CommandTrust;
+    private _undoStack: UndoStack;
+
+    private _onDidChangeFilter = new vscode.EventEmitter<string>();
+    readonly onDidChangeFilter: vscode.Event<string> = this._onDidChangeFilter.event;
+    private _filter = ''; // Text the commands are filtered by, empty for all
 
-    constructor(context: vscode.ExtensionContext, commandFsProvider: CommandFileSystemProvider) {
+    constructor(context: vscode.ExtensionContext, commandFsProvider: CommandFileSystemProvider, runner: CommandRunner, sequenceRunner: SequenceRunner, usage: CommandUsage, trust: CommandTrust, undoStack: UndoStack) {
         this._commandFsProvider = commandFsProvider;
+        this._placeholderResolver = new PlaceholderResolver(context.workspaceState);
+        this._runner = runner;
+        this._sequenceRunner = sequenceRunner;
+        this._usage = usage;
+        this._trust = trust;
+        this._undoStack = undoStack;
         // Listen to file system changes to refresh the tree view
         this._commandFsProvider.onDidChangeFile(() => this.refresh());
+        // A command whose document the user saved is trusted as written. Other changes, like moves, undo,
+        // other extensions or a pull of the workspace file, leave its review as it was.
+        this._commandFsProvider.onDidWriteCommand(({ item }) => this._trust.markReviewed([item]));
+        this._trust.onDidChange(() => this.refresh());
+        // Update spinners and exit codes of background runs and sequence steps
+        this._runner.onDidChangeRunState(() => this.refresh());
+        this._sequenceRunner.onDidChangeProgress(() => this.refresh());
+        // Favorites and run counts change the Favorites section and the sort order
+        this._usage.onDidChange(() => this.refresh());
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('commandsViewer.sortBy')) {
+                this.refresh();
+            }
+        });
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: CommandNode): vscode.TreeItem {
+    getTreeItem(element: CommandsTreeNode): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: CommandNode): Thenable<CommandNode[]> {
-        if (element) {
+    getChildren(element?: CommandsTreeNode): Thenable<CommandsTreeNode[]> {
+        if (element instanceof SequenceNode) {
+            const progress = this._sequenceRunner.getProgress(element.item.id);
+            return Promise.resolve((element.item.steps ?? []).map((step, index) => {
+                const item = this._commandFsProvider.getCommandById(step.commandId, element.scopeId);
+                const uri = this._commandFsProvider.getCommandUri(step.commandId, element.scopeId);
+                return new StepNode(element.item, element.scopeId, index, item && uri ? { item, uri } : undefined, progress?.[index]);
+            }));
+        }
+        if (element instanceof CommandNode || element instanceof StepNode || element instanceof DeletedCommandNode) {
             return Promise.resolve([]); // No children for individual command nodes
         }
+        if (element instanceof FavoritesNode) {
+            return Promise.resolve(this.getFavoriteNodes());
+        }
+        if (element instanceof TrashNode) {
+            const scopes = this._commandFsProvider.getScopes();
+            return Promise.resolve(this._commandFsProvider.getDeletedCommands().map(entry => new DeletedCommandNode(
+                entry,
+                scopes.length > 1 ? scopes.find(scope => scope.id === entry.scopeId)?.label : undefined
+            )));
+        }
 
-        const allCommands = this._commandFsProvider.getAllCommandItems();
-        const nodes = allCommands.map(item => {
-            // Reconstruct the filename based on the logic in commandFs.ts for display
-            // This logic should ideally be centralized or the FS provider should return the actual filename.
-            const fileName = item.name && item.name.trim() !== '' ? `${item.name}.cmd` : `${item.command.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '_')}.cmd`;
-            return new CommandNode(item, fileName);
-        });
+        // Show one section per scope once a workspace is open, otherwise just the user's commands.
+        // Favorites come first and removed commands last; while filtering, sections without matches are hidden.
+        const scopes = this._commandFsProvider.getScopes();
+        const favorites: CommandsTreeNode[] = !element && this.getFavoriteNodes().length > 0 ? [new FavoritesNode()] : [];
+        const deletedCount = this._commandFsProvider.getDeletedCommands().length;
+        const trash: CommandsTreeNode[] = !element && !this._filter && deletedCount > 0 ? [new TrashNode(deletedCount)] : [];
+        if (!element && scopes.length > 1) {
+            return Promise.resolve([
+                ...favorites,
+                ...scopes.filter(scope => this.hasMatches(scope.id, '')).map(scope => new ScopeNode(scope)),
+                ...trash
+            ]);
+        }
+
+        // Folders first, then the commands they contain
+        const scopeId = element ? element.scopeId : USER_SCOPE;
+        const contents = this._commandFsProvider.getFolderContents(scopeId, element ? element.folderPath : '');
+        const fileNames = new Map(contents.commands.map(([fileName, item]) => [item.id, fileName]));
+        const items = this.sortAndFilter(contents.commands.map(([, item]) => item));
+        const nodes: CommandsTreeNode[] = [
+            ...favorites,
+            ...contents.folders.filter(folder => this.hasMatches(scopeId, folder)).map(folder => {
+                const node = new FolderNode(folder, scopeId);
+                if (this._filter) {
+                    // Show the matches right away; a separate ID keeps the user's own expanded state for later
+                    node.id = `${node.id}:filtered`;
+                    node.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+                }
+                return node;
+            }),
+            ...items.map(item => this.createCommandNode(item, fileNames.get(item.id)!, scopeId)),
+            ...trash
+        ];
         return Promise.resolve(nodes);
     }
 
+    // Favorite commands of all scopes that match the filter
+    private getFavoriteNodes(): CommandNode[] {
+        return this._commandFsProvider.getScopes().flatMap(scope => {
+            const items = this.sortAndFilter(this._commandFsProvider.getAllCommandItems(scope.id).filter(item => this._usage.isFavorite(item.id)));
+            return items.map(item => {
+                const node = this.createCommandNode(item, this._commandFsProvider.getCommandUri(item.id, scope.id)!.path.substring(1), scope.id);
+                node.id = `favorite:${node.id}`; // The command also appears in its folder
+                return node;
+            });
+        });
+    }
+
+    private createCommandNode(item: CommandItem, fileName: string, scopeId: string): CommandNode {
+        const node = item.kind === 'sequence'
+            ? new SequenceNode(item, fileName, scopeId, this._sequenceRunner.isRunning(item.id))
+            : new CommandNode(item, fileName, scopeId, this._runner.getRunState(item.id), this._usage.getRunStats(item.id));
+        const favorite = this._usage.isFavorite(item.id);
+        const untrusted = !this._trust.isTrusted(item, this.isShared(scopeId));
+        if (untrusted) {
+            node.iconPath = new vscode.ThemeIcon('workspace-untrusted');
+            node.tooltip = `Not reviewed yet: it will be shown in full before it runs.\n\n${typeof node.tooltip === 'string' ? node.tooltip : ''}`;
+        }
+        // e.g. "commandItem.favorite.untrusted.running"
+        node.contextValue = node.contextValue!.replace(/^(commandItem|sequenceItem)/, `$1${favorite ? '.favorite' : ''}${untrusted ? '.untrusted' : ''}`);
+        return node;
+    }
+
+    private sortAndFilter(items: CommandItem[]): CommandItem[] {
+        const sortBy = vscode.workspace.getConfiguration('commandsViewer').get<SortOrder>('sortBy', 'created');
+        return sortCommands(items.filter(item => matchesFilter(item, this._filter)), sortBy, id => this._usage.getRunStats(id));
+    }
+
+    // Whether a folder ("" for the scope root) contains commands matching the filter, at any depth.
+    // Without a filter every folder is shown, including empty ones.
+    private hasMatches(scopeId: string, folder: string): boolean {
+        return !this._filter || this._commandFsProvider.getAllCommandItems(scopeId).some(item => {
+            const itemFolder = normalizeFolderPath(item.folder);
+            return (folder === '' || itemFolder === folder || itemFolder.startsWith(`${folder}/`)) && matchesFilter(item, this._filter);
+        });
+    }
+
+    // --- Filter and favorites ---
+
+    getFilter(): string {
+        return this._filter;
+    }
+
+    setFilter(filter: string): void {
+        this._filter = filter.trim();
+        this._onDidChangeFilter.fire(this._filter);
+        this.refresh();
+    }
+
+    // Filters the view while typing. Enter keeps the filter, Escape restores the previous one.
+    showFilterBox(): void {
+        const previous = this._filter;
+        let accepted = false;
+        const input = vscode.window.createInputBox();
+        input.title = 'Filter Commands';
+        input.placeholder = 'Name, command or description; #tag for tags';
+        input.prompt = 'Matches commands containing all words. Leave empty to show all commands.';
+        input.value = this._filter;
+        input.onDidChangeValue(value => this.setFilter(value));
+        input.onDidAccept(() => {
+            accepted = true;
+            input.hide();
+        });
+        input.onDidHide(() => {
+            if (!accepted) {
+                this.setFilter(previous);
+            }
+            input.dispose();
+        });
+        input.show();
+    }
+
+    async sortBy(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('commandsViewer');
+        const current = config.get<SortOrder>('sortBy', 'created');
+        const picked = await vscode.window.showQuickPick(
+            ([
+                ['created', 'Order Added'],
+                ['name', 'Name'],
+                ['lastRun', 'Last Run'],
+                ['runCount', 'Run Count']
+            ] as [SortOrder, string][]).map(([order, label]) => ({ label, description: order === current ? 'Current' : undefined, order })),
+            { placeHolder: 'Sort commands by' }
+        );
+        if (picked) {
+            await config.update('sortBy', picked.order, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    async setFavorite(node: CommandNode, nodes: CommandsTreeNode[] | undefined, favorite: boolean): Promise<void> {
+        const selected = (nodes ?? [node]).filter((selectedNode): selectedNode is CommandNode => selectedNode instanceof CommandNode);
+        await this._usage.setFavorite(selected.map(selectedNode => selectedNode.item.id), favorite);
+    }
+
+    // --- Drag and drop ---
+
+    handleDrag(source: readonly CommandsTreeNode[], dataTransfer: vscode.DataTransfer): void {
+        const entries: DraggedEntry[] = source
+            .filter((node): node is CommandNode | FolderNode => node instanceof CommandNode || (node instanceof FolderNode && !(node instanceof ScopeNode))) // Scopes, steps and sections cannot be moved
+            .map(node => node instanceof FolderNode
+                ? { scopeId: node.scopeId, path: node.folderPath }
+                : { scopeId: node.scopeId, path: node.fileName, id: node.item.id });
+        dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(entries));
+    }
+
+    async handleDrop(target: CommandsTreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const transferItem = dataTransfer.get(TREE_MIME_TYPE);
+        if (!transferItem || target instanceof TrashNode || target instanceof DeletedCommandNode) { return; }
+
+        // Dropping onto the Favorites section adds the commands to it, without moving them
+        if (target instanceof FavoritesNode || (target instanceof CommandNode && target.id?.startsWith('favorite:'))) {
+            const ids = (transferItem.value as DraggedEntry[]).map(entry => entry.id).filter((id): id is string => id !== undefined);
+            await this._usage.setFavorite(ids, true);
+            return;
+        }
+
+        // Dropping onto a command moves into that command's folder
+        const targetFolder = target instanceof FolderNode ? target.folderPath
+            : target instanceof CommandNode ? normalizeFolderPath(target.item.folder)
+            : target instanceof StepNode ? normalizeFolderPath(target.sequence.folder)
+            : '';
+        const targetScopeId = target ? target.scopeId : USER_SCOPE;
+        const entries: DraggedEntry[] = transferItem.value;
+        const label = entries.length === 1 ? `Move "${entries[0].path.substring(entries[0].path.lastIndexOf('/') + 1).replace(/\.cmd$/, '')}"` : `Move ${entries.length} items`;
+
+        try {
+            await this._undoStack.group(label, async () => {
+                for (const entry of entries) {
+                    await this.moveToFolder(entry, targetFolder, targetScopeId);
+                }
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to move: ${error.message}`);
+        }
+    }
+
+    // Moves a command file or folder into another folder, possibly of another scope
+    private async moveToFolder(source: DraggedEntry, targetFolder: string, targetScopeId: string): Promise<void> {
+        const name = source.path.substring(source.path.lastIndexOf('/') + 1);
+        const newPath = targetFolder === '' ? name : `${targetFolder}/${name}`;
+        if (newPath === source.path && targetScopeId === source.scopeId) { return; }
+        await this._commandFsProvider.rename(toUri(source.path, source.scopeId, source.id), toUri(newPath, targetScopeId), { overwrite: false });
+    }
+
     // --- Commands to be registered ---
 
-    async createNewCommand(): Promise<void> {
+    async createNewCommand(folderNode?: FolderNode): Promise<void> {
         const commandContent = await vscode.window.showInputBox({
             prompt: 'Enter the shell command you want to save'
         });
@@ -88,8 +550,27 @@ export class CommandsProvider implements vscode.TreeDataProvider<CommandNode> {
             placeHolder: 'Leave empty to use the command itself as name'
         });
 
-        // Use the file system provider to add the command
-        await this._commandFsProvider.addCommandItem({ name: name || undefined, command: commandContent });
+        const newItem: NewCommandItem = {
+            name: name || undefined,
+            command: commandContent,
+            folder: folderNode instanceof FolderNode ? folderNode.folderPath || undefined : undefined
+        };
+
+        // Optionally set the working directory, environment and shell right away
+        const next = await vscode.window.showQuickPick(
+            ['Save', 'Configure Working Directory, Environment and Shell...'],
+            { placeHolder: 'Save the command, or configure how it runs first' }
+        );
+        if (next === undefined) { return; }
+        if (next !== 'Save') {
+            const settings = await editRunSettings(newItem);
+            if (!settings) { return; }
+            Object.assign(newItem, settings);
+        }
+
+        // Use the file system provider to add the command; the user wrote it, so it needs no review
+        const added = await this._commandFsProvider.addCommandItem(newItem, folderNode instanceof FolderNode ? folderNode.scopeId : USER_SCOPE);
+        await this._trust.markReviewed([added]);
         this.refresh(); // Refresh the tree view
     }
 
@@ -102,167 +583,1109 @@ export class CommandsProvider implements vscode.TreeDataProvider<CommandNode> {
 
         if (newName === undefined) { return; }
 
-        await this._commandFsProvider.addCommandItem({
+        // The copy keeps every setting and stays next to the original, with its own ID and timestamps
+        const { id, createdAt, modifiedAt, ...settings } = originalItem;
+        const trusted = this._trust.isTrusted(originalItem, this.isShared(node.scopeId));
+        const copy = await this._commandFsProvider.addCommandItem({
+            ...settings,
             name: newName,
-            command: originalItem.command // Duplicate the command content
-        });
+            tags: settings.tags && [...settings.tags],
+            env: settings.env && { ...settings.env },
+            shellArgs: settings.shellArgs && [...settings.shellArgs],
+            steps: settings.steps?.map(step => ({ ...step })),
+            // Scripts keep their interpreter, and each platform variant is copied on its own
+            platforms: settings.platforms && Object.fromEntries(Object.entries(settings.platforms).map(([platform, variant]) => [platform, { ...variant }]))
+        }, node.scopeId);
+        if (trusted) {
+            await this._trust.markReviewed([copy]); // A copy of an unreviewed command waits for a review too
+        }
         this.refresh();
     }
 
     async removeCommand(node: CommandNode): Promise<void> {
         const confirmation = await vscode.window.showWarningMessage(
             `Are you sure you want to remove "${node.item.name || node.item.command}"?`,
-            { modal: true },
+            { modal: true, detail: 'You can restore it from "Recently Deleted".' },
             'Yes'
         );
 
         if (confirmation === 'Yes') {
-            const uri = vscode.Uri.parse(`${commandFsScheme}:/${node.fileName}`);
-            await this._commandFsProvider.delete(uri, { recursive: false });
+            await this._commandFsProvider.delete(toUri(node.fileName, node.scopeId, node.item.id), { recursive: false });
             this.refresh();
         }
     }
 
-    async runCommand(node: CommandNode): Promise<void> {
+    // Moves commands into the "Archive" folder of their scope, keeping their folder below it
+    async archiveCommands(commands: ScopedCommand[]): Promise<void> {
+        if (commands.length === 0) { return; }
+        const label = commands.length === 1 ? `Archive "${commands[0].item.name || commands[0].item.command}"` : `Archive ${commands.length} commands`;
+        try {
+            await this._undoStack.group(label, async () => {
+                for (const { item, scopeId } of commands) {
+                    const source = this._commandFsProvider.getCommandUri(item.id, scopeId);
+                    if (!source) { continue; } // Removed in the meantime
+                    const folder = normalizeFolderPath(item.folder);
+                    const target = folder === '' ? ARCHIVE_FOLDER : `${ARCHIVE_FOLDER}/${folder}`;
+                    await this._commandFsProvider.ensureFolder(target, scopeId);
+                    await this.moveToFolder({ scopeId, path: source.path.substring(1), id: item.id }, target, scopeId);
+                }
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to archive commands: ${error.message}`);
+        }
+    }
+
+    async removeCommands(commands: ScopedCommand[]): Promise<void> {
+        if (commands.length === 0) { return; }
         const confirmation = await vscode.window.showWarningMessage(
-            `Run "${node.item.name || node.item.command}"?`,
-            { modal: true },
+            commands.length === 1
+                ? `Are you sure you want to remove "${commands[0].item.name || commands[0].item.command}"?`
+                : `Are you sure you want to remove ${commands.length} commands?`,
+            { modal: true, detail: 'You can restore them from "Recently Deleted".' },
+            'Yes'
+        );
+        if (confirmation !== 'Yes') { return; }
+
+        try {
+            await this._undoStack.group(commands.length === 1 ? `Remove "${commands[0].item.name || commands[0].item.command}"` : `Remove ${commands.length} commands`, async () => {
+                for (const { item, scopeId } of commands) {
+                    const uri = this._commandFsProvider.getCommandUri(item.id, scopeId);
+                    if (uri) {
+                        await this._commandFsProvider.delete(uri, { recursive: false });
+                    }
+                }
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to remove commands: ${error.message}`);
+        }
+    }
+
+    async createFolder(parentNode?: FolderNode): Promise<void> {
+        const parentFolder = parentNode instanceof FolderNode ? parentNode.folderPath : '';
+        const scopeId = parentNode instanceof FolderNode ? parentNode.scopeId : USER_SCOPE;
+        const folderName = await vscode.window.showInputBox({
+            prompt: parentFolder ? `Enter a name for the new folder in "${parentFolder}"` : 'Enter a name for the new folder',
+            validateInput: value => validateFolderName(value)
+        });
+        if (folderName === undefined) { return; }
+
+        const folderPath = parentFolder ? `${parentFolder}/${folderName.trim()}` : folderName.trim();
+        try {
+            await this._commandFsProvider.createDirectory(toUri(folderPath, scopeId));
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to create folder: ${error.message}`);
+        }
+    }
+
+    async renameFolder(node: FolderNode): Promise<void> {
+        const oldName = node.folderPath.substring(node.folderPath.lastIndexOf('/') + 1);
+        const newName = await vscode.window.showInputBox({
+            prompt: `Enter a new name for the folder "${oldName}"`,
+            value: oldName,
+            validateInput: value => validateFolderName(value)
+        });
+        if (newName === undefined || newName.trim() === oldName) { return; }
+
+        const parentFolder = node.folderPath.substring(0, Math.max(node.folderPath.lastIndexOf('/'), 0));
+        const newPath = parentFolder ? `${parentFolder}/${newName.trim()}` : newName.trim();
+        try {
+            await this._commandFsProvider.rename(toUri(node.folderPath, node.scopeId), toUri(newPath, node.scopeId), { overwrite: false });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to rename folder: ${error.message}`);
+        }
+    }
+
+    async removeFolder(node: FolderNode): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            `Are you sure you want to remove the folder "${node.folderPath}" and all commands in it?`,
+            { modal: true, detail: 'You can restore the commands from "Recently Deleted".' },
             'Yes'
         );
 
         if (confirmation === 'Yes') {
-            let terminal = vscode.window.activeTerminal;
-            if (!terminal) {
-                terminal = vscode.window.createTerminal(`Command: ${node.item.name || node.item.command.substring(0, 30)}`);
-            }
-            terminal.show();
-            terminal.sendText(node.item.command);
+            await this._undoStack.group(`Remove folder "${node.folderPath}"`, () =>
+                this._commandFsProvider.delete(toUri(node.folderPath, node.scopeId), { recursive: true }));
+            this.refresh();
         }
     }
 
-    async exportCommands(): Promise<void> {
-        const commandsToExport = this._commandFsProvider.getAllCommandItems();
-        if (commandsToExport.length === 0) {
-            vscode.window.showInformationMessage('No commands to export.');
+    async moveCommand(node: CommandNode): Promise<void> {
+        const currentFolder = normalizeFolderPath(node.item.folder);
+        const choices = ['/', ...this._commandFsProvider.getAllFolders(node.scopeId).map(folder => `/${folder}`)]
+            .filter(folder => folder !== `/${currentFolder}`);
+        const target = await vscode.window.showQuickPick(choices, {
+            placeHolder: `Move "${node.item.name || node.item.command}" to folder`
+        });
+        if (target === undefined) { return; }
+
+        try {
+            await this.moveToFolder({ scopeId: node.scopeId, path: node.fileName, id: node.item.id }, normalizeFolderPath(target), node.scopeId);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to move command: ${error.message}`);
+        }
+    }
+
+    // Moves or copies a command to the same folder of another scope (e.g., from "User" to "Workspace")
+    async transferToScope(node: CommandNode, mode: 'move' | 'copy'): Promise<void> {
+        const targets = this._commandFsProvider.getScopes().filter(scope => scope.id !== node.scopeId && !scope.loadError);
+        if (targets.length === 0) {
+            vscode.window.showInformationMessage('Open a workspace folder to share commands with your team.');
             return;
         }
 
-        const defaultFileName = `my-commands-${new Date().toISOString().slice(0, 10)}.json`;
-        const defaultUri = vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', defaultFileName));
+        const picked = targets.length === 1 ? targets[0] : (await vscode.window.showQuickPick(
+            targets.map(scope => ({ label: scope.label, description: scope.workspaceFolder?.uri.fsPath, scope })),
+            { placeHolder: `${mode === 'move' ? 'Move' : 'Copy'} "${node.item.name || node.item.command}" to` }
+        ))?.scope;
+        if (!picked) { return; }
 
+        const folder = normalizeFolderPath(node.item.folder);
+        const source = toUri(node.fileName, node.scopeId, node.item.id);
+        const destination = toUri(node.fileName, picked.id);
         try {
-            const uri = await vscode.window.showSaveDialog({
-                title: 'Export Commands to JSON',
-                defaultUri: defaultUri,
-                filters: {
-                    'JSON Files': ['json']
+            await this._undoStack.group(`${mode === 'move' ? 'Move' : 'Copy'} "${node.item.name || node.item.command}" to ${picked.label}`, async () => {
+                await this._commandFsProvider.ensureFolder(folder, picked.id);
+                if (mode === 'move') {
+                    await this._commandFsProvider.rename(source, destination, { overwrite: false });
+                } else {
+                    await this._commandFsProvider.copy(source, destination, { overwrite: false });
                 }
             });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to ${mode} command: ${error.message}`);
+        }
+    }
 
-            if (uri) {
-                const jsonString = JSON.stringify(commandsToExport, null, 2);
-                await vscode.workspace.fs.writeFile(uri, Buffer.from(jsonString, 'utf8'));
-                vscode.window.showInformationMessage(`Commands exported successfully to ${uri.fsPath}`);
-            }
+    async undo(): Promise<void> {
+        try {
+            const label = await this._undoStack.undo();
+            vscode.window.setStatusBarMessage(label ? `Undone: ${label}` : 'Nothing to undo', 3000);
         } catch (error: any) {
-            vscode.window.showErrorMessage(`Failed to export commands: ${error.message}`);
-            console.error('Export commands error:', error);
+            vscode.window.showErrorMessage(`Failed to undo: ${error.message}`);
+        }
+    }
+
+    async redo(): Promise<void> {
+        try {
+            const label = await this._undoStack.redo();
+            vscode.window.setStatusBarMessage(label ? `Redone: ${label}` : 'Nothing to redo', 3000);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to redo: ${error.message}`);
+        }
+    }
+
+    // Lists the earlier versions of a command, from the tree or the editor, to compare or restore them
+    async showHistory(node?: CommandNode): Promise<void> {
+        const target = node instanceof CommandNode
+            ? { item: node.item, scopeId: node.scopeId }
+            : vscode.window.activeTextEditor && this._commandFsProvider.getCommandByUri(vscode.window.activeTextEditor.document.uri);
+        if (!target) {
+            vscode.window.showInformationMessage('Select a command to show its history.');
+            return;
+        }
+        const name = target.item.name || target.item.command.split('\n')[0];
+        const versions = this._commandFsProvider.getVersions(target.item.id).reverse(); // Newest first
+        if (versions.length === 0) {
+            vscode.window.showInformationMessage(`"${name}" has no earlier versions yet. One is kept each time it changes.`);
+            return;
+        }
+
+        type VersionItem = vscode.QuickPickItem & { version: CommandVersion; previous?: CommandVersion };
+        const compareButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('git-compare'), tooltip: 'Compare with Previous Version' };
+        const restoreButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('discard'), tooltip: 'Restore This Version' };
+        const quickPick = vscode.window.createQuickPick<VersionItem>();
+        quickPick.title = `History of "${name}"`;
+        quickPick.placeholder = 'Select a version to compare it with the current one';
+        quickPick.items = versions.map((version, index) => ({
+            label: `Version ${version.version}`,
+            description: new Date(version.item.modifiedAt).toLocaleString(),
+            detail: version.item.kind === 'sequence' ? `Sequence of ${version.item.steps?.length ?? 0} steps` : version.item.command.split('\n')[0],
+            buttons: index + 1 < versions.length ? [compareButton, restoreButton] : [restoreButton],
+            version,
+            previous: versions[index + 1]
+        }));
+        const picked = await new Promise<{ item: VersionItem; action: 'compare' | 'compareWithPrevious' | 'restore' } | undefined>(resolve => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0] && { item: quickPick.selectedItems[0], action: 'compare' }));
+            quickPick.onDidTriggerItemButton(event => resolve({ item: event.item, action: event.button === restoreButton ? 'restore' : 'compareWithPrevious' }));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+        if (!picked) { return; }
+
+        const { version, previous } = picked.item;
+        const versionUri = this._commandFsProvider.getVersionUri(target.item.id, target.scopeId, version.version);
+        const currentUri = this._commandFsProvider.getCommandUri(target.item.id, target.scopeId);
+        if (!versionUri || !currentUri) { return; } // Removed in the meantime
+        if (picked.action === 'compare') {
+            await vscode.commands.executeCommand('vscode.diff', versionUri, currentUri, `${name} (Version ${version.version}) ↔ Current`);
+        } else if (picked.action === 'compareWithPrevious' && previous) {
+            const previousUri = this._commandFsProvider.getVersionUri(target.item.id, target.scopeId, previous.version)!;
+            await vscode.commands.executeCommand('vscode.diff', previousUri, versionUri, `${name} (Version ${previous.version}) ↔ (Version ${version.version})`);
+        } else if (picked.action === 'restore') {
+            await this.restoreVersion(target.item.id, target.scopeId, version);
         }
     }
 
-    async importCommands(): Promise<void> {
+    // Brings back the content of an earlier version; the command stays in its folder
+    private async restoreVersion(id: string, scopeId: string, version: CommandVersion): Promise<void> {
+        const current = this._commandFsProvider.getCommandById(id, scopeId);
+        if (!current) { return; }
         try {
-            const uri = await vscode.window.showOpenDialog({
-                title: 'Import Commands from JSON',
-                canSelectFiles: true,
-                canSelectFolders: false,
-                canSelectMany: false,
-                filters: {
-                    'JSON Files': ['json']
+            await this._undoStack.group(`Restore version ${version.version} of "${current.name || current.command}"`, () =>
+                this._commandFsProvider.restoreCommands(scopeId, [{ id, item: { ...version.item, id, folder: current.folder, modifiedAt: Date.now() } }]));
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to restore version: ${error.message}`);
+        }
+    }
+
+    async restoreDeleted(node: DeletedCommandNode, nodes?: CommandsTreeNode[]): Promise<void> {
+        const selected = (nodes ?? [node]).filter((selectedNode): selectedNode is DeletedCommandNode => selectedNode instanceof DeletedCommandNode);
+        const label = selected.length === 1 ? `Restore "${selected[0].entry.item.name || selected[0].entry.item.command}"` : `Restore ${selected.length} commands`;
+        try {
+            await this._undoStack.group(label, async () => {
+                for (const selectedNode of selected) {
+                    await this._commandFsProvider.restoreDeleted(selectedNode.entry.item.id);
                 }
             });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to restore command: ${error.message}`);
+        }
+    }
+
+    async deletePermanently(node: DeletedCommandNode, nodes?: CommandsTreeNode[]): Promise<void> {
+        const selected = (nodes ?? [node]).filter((selectedNode): selectedNode is DeletedCommandNode => selectedNode instanceof DeletedCommandNode);
+        const confirmation = await vscode.window.showWarningMessage(
+            selected.length === 1
+                ? `Are you sure you want to permanently delete "${selected[0].entry.item.name || selected[0].entry.item.command}"?`
+                : `Are you sure you want to permanently delete ${selected.length} commands?`,
+            { modal: true, detail: 'Their version history is deleted as well. This cannot be undone.' },
+            'Delete Permanently'
+        );
+        if (confirmation === 'Delete Permanently') {
+            await this._commandFsProvider.purgeDeleted(selected.map(selectedNode => selectedNode.entry.item.id));
+        }
+    }
 
-            if (uri && uri.length > 0) {
-                const fileContent = await vscode.workspace.fs.readFile(uri[0]);
-                const jsonString = Buffer.from(fileContent).toString('utf8');
-                let importedCommands: CommandItem[] = [];
+    async emptyTrash(): Promise<void> {
+        const deleted = this._commandFsProvider.getDeletedCommands();
+        if (deleted.length === 0) { return; }
+        const confirmation = await vscode.window.showWarningMessage(
+            `Are you sure you want to permanently delete all ${deleted.length} commands in "Recently Deleted"?`,
+            { modal: true, detail: 'Their version history is deleted as well. This cannot be undone.' },
+            'Empty'
+        );
+        if (confirmation === 'Empty') {
+            await this._commandFsProvider.purgeDeleted(deleted.map(entry => entry.item.id));
+        }
+    }
 
-                try {
-                    importedCommands = JSON.parse(jsonString);
-                    // Basic validation to ensure it's an array of CommandItem like objects
-                    if (!Array.isArray(importedCommands) || !importedCommands.every(cmd => typeof cmd === 'object' && typeof cmd.command === 'string')) {
-                        throw new Error('Invalid JSON format. Expected an array of objects with a "command" property.');
-                    }
-                } catch (jsonError: any) {
-                    vscode.window.showErrorMessage(`Invalid JSON file: ${jsonError.message}`);
-                    return;
-                }
+    async runCommand(node: CommandNode): Promise<void> {
+        await this.runSaved(node.item, node.scopeId);
+    }
 
-                if (importedCommands.length === 0) {
-                    vscode.window.showInformationMessage('No commands found in the selected file.');
-                    return;
+    /**
+     * Runs a saved command by its ID or name without opening the view, e.g. from a key binding:
+     * `{ "key": "ctrl+alt+b", "command": "commandsViewer.run", "args": "Build" }`.
+     * Also accepts `{ "id": "..." }` or `{ "name": "..." }`. Without an argument, shows the Quick Run picker.
+     * @param fromLink Set for runs requested by a `vscode://` link, which always ask first.
+     */
+    async runByReference(reference?: string | { id?: string; name?: string }, fromLink: boolean = false): Promise<void> {
+        if (reference === undefined) {
+            await this.quickRun();
+            return;
+        }
+        const id = typeof reference === 'string' ? reference : reference.id;
+        const name = typeof reference === 'string' ? reference : reference.name;
+        const scopes = this._commandFsProvider.getScopes();
+
+        // IDs first, since names don't have to be unique. Workspace commands win over the user's own.
+        const match = (id !== undefined ? scopes.map(scope => ({ item: this._commandFsProvider.getCommandById(id, scope.id), scopeId: scope.id })).find(found => found.item) : undefined)
+            ?? (name !== undefined ? scopes.map(scope => ({ item: this._commandFsProvider.getAllCommandItems(scope.id).find(item => item.name === name), scopeId: scope.id })).find(found => found.item) : undefined);
+        if (!match?.item) {
+            vscode.window.showErrorMessage(`Failed to run command: no saved command with the ID or name "${id ?? name}".`);
+            return;
+        }
+        await this.runSaved(match.item, match.scopeId, fromLink);
+    }
+
+    // Lets the user search all saved commands, most recently run first, and runs the chosen one
+    async quickRun(): Promise<void> {
+        type QuickRunItem = vscode.QuickPickItem & { item: CommandItem; scopeId: string };
+        const scopes = this._commandFsProvider.getScopes();
+        const openButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Open Command' };
+        const items: QuickRunItem[] = sortCommands(
+            scopes.flatMap(scope => this._commandFsProvider.getAllCommandItems(scope.id).map(item => ({ ...item, scopeId: scope.id }))),
+            'lastRun',
+            id => this._usage.getRunStats(id)
+        ).map(({ scopeId, ...item }) => ({
+            label: `$(${item.kind === 'sequence' ? 'list-ordered' : this._usage.isFavorite(item.id) ? 'star-full' : 'terminal'}) ${item.name || item.command.split('\n')[0]}`,
+            description: [
+                ...(scopes.length > 1 ? [scopes.find(scope => scope.id === scopeId)!.label] : []),
+                ...(item.folder ? [normalizeFolderPath(item.folder)] : []),
+                ...(item.tags ?? []).map(tag => `#${tag}`)
+            ].join(' · ') || undefined,
+            detail: item.kind === 'sequence' ? `Sequence of ${item.steps?.length ?? 0} steps` : item.name ? item.command : undefined,
+            buttons: [openButton],
+            item,
+            scopeId
+        }));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No saved commands yet. Use "Create New Command" in the Custom Commands view.');
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<QuickRunItem>();
+        quickPick.title = 'Run Saved Command';
+        quickPick.placeholder = 'Search by name, command, folder or #tag';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = items;
+        const picked = await new Promise<QuickRunItem | undefined>(resolve => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+            quickPick.onDidTriggerItemButton(event => {
+                const uri = this._commandFsProvider.getCommandUri(event.item.item.id, event.item.scopeId);
+                if (uri) {
+                    vscode.commands.executeCommand('vscode.open', uri);
                 }
+                resolve(undefined);
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
 
-                const currentCommands = this._commandFsProvider.getAllCommandItems();
-                const newCommands: CommandItem[] = [];
-                let commandsAdded = 0;
-
-                for (const importedCmd of importedCommands) {
-                    // Check for exact duplicates (same name and command) before adding
-                    const isDuplicate = currentCommands.some(
-                        existingCmd => existingCmd.name === importedCmd.name && existingCmd.command === importedCmd.command
-                    );
-
-                    if (!isDuplicate) {
-                        newCommands.push(importedCmd);
-                        commandsAdded++;
-                    } else {
-                        console.log(`Skipping duplicate command: ${importedCmd.name || importedCmd.command}`);
-                    }
+        if (picked) {
+            await this.runSaved(picked.item, picked.scopeId);
+        }
+    }
+
+    // Runs a command or sequence. Workspace commands only run in trusted workspaces.
+    private async runSaved(item: CommandItem, scopeId: string, fromLink: boolean = false): Promise<void> {
+        if (!await this.checkWorkspaceTrust(item.name || item.command, scopeId)) {
+            return;
+        }
+        if (item.kind === 'sequence') {
+            await this.runSequence(item, scopeId, fromLink);
+        } else {
+            await this.runItem(item, scopeId, fromLink);
+        }
+    }
+
+    // Runs a past run again with the same placeholder values, after the same checks as a run of its saved command.
+    // If that command was removed since, the run is checked on its own.
+    async rerun(entry: RunHistoryEntry): Promise<void> {
+        const scopeId = entry.scopeId ?? USER_SCOPE;
+        if (!await this.checkWorkspaceTrust(entry.label, scopeId)) {
+            return;
+        }
+
+        const saved = entry.commandId !== undefined ? this._commandFsProvider.getCommandById(entry.commandId, scopeId) : undefined;
+        const item: CommandItem = saved ?? { id: entry.commandId ?? entry.id, name: entry.label, command: entry.command, createdAt: entry.startedAt, modifiedAt: entry.startedAt };
+        if (await this.confirmRun(`"${entry.label}"`, item, scopeId, [{ item, request: entry }], false)) {
+            if (saved) {
+                await this._usage.recordRun(saved.id);
+            }
+            await this._runner.run(entry);
+        }
+    }
+
+    // Whether commands of a scope may run: workspace commands can't in Restricted Mode
+    private async checkWorkspaceTrust(label: string, scopeId: string): Promise<boolean> {
+        if (!this.isShared(scopeId) || vscode.workspace.isTrusted) {
+            return true;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `"${label}" comes from the workspace and can't run in Restricted Mode.`,
+            'Manage Workspace Trust'
+        );
+        if (choice) {
+            vscode.commands.executeCommand('workbench.trust.manage');
+        }
+        return false;
+    }
+
+    // Resolves placeholders, asks for confirmation and runs a saved command with its run settings
+    private async runItem(item: CommandItem, scopeId: string, fromLink: boolean): Promise<void> {
+        const request = await this.prepareRun(item, scopeId);
+        if (!request) { return; }
+
+        if (await this.confirmRun(`"${item.name || item.command}"`, item, scopeId, [{ item, request }], fromLink)) {
+            await this._usage.recordRun(item.id);
+            await this._runner.run(request);
+        }
+    }
+
+    // Resolves all steps first, so every prompt comes before anything runs, then asks once for the whole sequence
+    private async runSequence(sequence: CommandItem, scopeId: string, fromLink: boolean): Promise<void> {
+        const steps = sequence.steps ?? [];
+        if (steps.length === 0) {
+            vscode.window.showInformationMessage(`"${sequence.name}" has no steps yet. Use "Edit Sequence" to add some.`);
+            return;
+        }
+
+        const prepared: (PreparedStep & { item: CommandItem })[] = [];
+        for (const [index, step] of steps.entries()) {
+            const item = this._commandFsProvider.getCommandById(step.commandId, scopeId);
+            if (!item) {
+                vscode.window.showErrorMessage(`Failed to run sequence: step ${index + 1} of "${sequence.name}" refers to a command that no longer exists.`);
+                return;
+            }
+            const request = await this.prepareRun(item, scopeId);
+            if (!request) { return; }
+            prepared.push({ step, request, item });
+        }
+
+        if (await this.confirmRun(`The sequence "${sequence.name}"`, sequence, scopeId, prepared, fromLink)) {
+            if (this._sequenceRunner.isRunning(sequence.id)) {
+                vscode.window.showWarningMessage(`"${sequence.name}" is already running.`);
+                return;
+            }
+            await this._usage.recordRun(sequence.id);
+            const passed = await this._sequenceRunner.run(sequence.id, sequence.name || 'Sequence', prepared);
+            await this._usage.recordExitCode(sequence.id, passed ? 0 : 1);
+        }
+    }
+
+    /**
+     * Asks before running when a command hasn't been reviewed yet, or when the confirmation policy
+     * (the command's own `requiresConfirmation` or the "commandsViewer.confirmBeforeRun" setting) says so.
+     * For sequences, every step is checked and a step that requires confirmation makes the sequence ask.
+     * @param subject How to refer to the command in the prompt, e.g. `"Build"` or `The sequence "Deploy"`.
+     * @param fromLink Always asks, since a link can be clicked without knowing what it runs.
+     * @returns True if the commands may run.
+     */
+    private async confirmRun(subject: string, target: CommandItem, scopeId: string, runs: { item: CommandItem; request: RunRequest }[], fromLink: boolean): Promise<boolean> {
+        const detail = runs.map(({ request }, index) => runs.length > 1 ? `${index + 1}. ${request.command}` : request.command).join('\n');
+
+        // Shared and imported commands could do anything; show them in full until someone has looked at them
+        const shared = this.isShared(scopeId);
+        const unreviewed = [target, ...runs.map(run => run.item)]
+            .filter((item, index, all) => all.findIndex(other => other.id === item.id) === index && !this._trust.isTrusted(item, shared));
+        if (unreviewed.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `${subject} ${shared ? 'comes from the workspace\'s .vscode/commands.json' : 'was imported'} and hasn't been reviewed yet. Run it?`,
+                { modal: true, detail },
+                'Trust and Run', 'Run Once'
+            );
+            if (choice === 'Trust and Run') {
+                await this._trust.markReviewed(unreviewed);
+            }
+            return choice !== undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('commandsViewer');
+        const policy = config.get<ConfirmationPolicy>('confirmBeforeRun', 'dangerous');
+        const dangerousMatch = runs.map(({ request }) => findDangerousMatch(request.command, config.get<string[]>('dangerousPatterns', []))).find(match => match !== undefined);
+        const required = target.requiresConfirmation !== undefined ? target : { requiresConfirmation: runs.some(run => run.item.requiresConfirmation) || undefined };
+        if (!fromLink && !needsConfirmation(required, policy, dangerousMatch)) {
+            return true;
+        }
+
+        const message = dangerousMatch ? `${subject} contains "${dangerousMatch}", which can be destructive. Run it anyway?`
+            : fromLink ? `A link wants to run ${subject.replace(/^The /, 'the ')}. Run it?`
+            : `Run ${subject.replace(/^The /, 'the ')}?`;
+        const confirmation = await vscode.window.showWarningMessage(
+            message,
+            { modal: true, detail },
+            'Yes'
+        );
+        return confirmation === 'Yes';
+    }
+
+    // Whether a scope is a workspace folder's commands file, which others can change
+    private isShared(scopeId: string): boolean {
+        return this._commandFsProvider.getScopes().find(scope => scope.id === scopeId)?.workspaceFolder !== undefined;
+    }
+
+    // Changes a command from the view. A reviewed command stays reviewed, since the user made the change,
+    // while one waiting for a review keeps waiting.
+    private async updateCommand(id: string, scopeId: string, changes: Partial<NewCommandItem>): Promise<void> {
+        const current = this._commandFsProvider.getCommandById(id, scopeId);
+        const trusted = current !== undefined && this._trust.isTrusted(current, this.isShared(scopeId));
+        const updated = await this._commandFsProvider.updateCommandItem(id, scopeId, changes);
+        if (trusted) {
+            await this._trust.markReviewed([updated]);
+        }
+    }
+
+    async markReviewed(node: CommandNode, nodes?: CommandsTreeNode[]): Promise<void> {
+        const selected = (nodes ?? [node]).filter((selectedNode): selectedNode is CommandNode => selectedNode instanceof CommandNode);
+        await this._trust.markReviewed(selected.map(selectedNode => selectedNode.item));
+    }
+
+    async setConfirmation(node: CommandNode): Promise<void> {
+        const current = node.item.requiresConfirmation;
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: 'Use Setting', description: 'commandsViewer.confirmBeforeRun', value: undefined },
+                { label: 'Always Ask', value: true },
+                { label: 'Never Ask', value: false }
+            ].map(choice => ({ ...choice, detail: choice.value === current ? 'Current' : undefined })),
+            { placeHolder: `Ask before running "${node.item.name || node.item.command}"?` }
+        );
+        if (!picked) { return; }
+
+        try {
+            await this.updateCommand(node.item.id, node.scopeId, { requiresConfirmation: picked.value });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to update command: ${error.message}`);
+        }
+    }
+
+    // Works out how a saved command runs: its working directory, placeholders and run mode.
+    // Returns undefined if the user cancelled a prompt or the command can't run.
+    private async prepareRun(item: CommandItem, scopeId: string): Promise<RunRequest | undefined> {
+        const workspaceFolder = this._commandFsProvider.getScopes().find(scope => scope.id === scopeId)?.workspaceFolder
+            ?? vscode.workspace.workspaceFolders?.[0];
+
+        const cwd = resolveWorkingDirectory(item.cwd, workspaceFolder);
+        if (item.cwd && cwd && !fs.existsSync(cwd)) {
+            vscode.window.showErrorMessage(`Failed to run command: working directory "${cwd}" does not exist.`);
+            return undefined;
+        }
+
+        const variant = selectVariant(item);
+        if (!variant) {
+            vscode.window.showErrorMessage(`Failed to run command: "${item.name || item.id}" has no variant for ${getPlatformLabel()}.`);
+            return undefined;
+        }
+
+        // Substitute ${...} placeholders first so the confirmation shows what will actually run
+        let commandText: string;
+        let values: { [name: string]: string };
+        try {
+            const resolved = await this._placeholderResolver.resolve(variant.command, { workspaceFolder });
+            if (!resolved) { return undefined; } // User cancelled a prompt
+            commandText = resolved.command;
+            values = resolved.values;
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to run command: ${error.message}`);
+            return undefined;
+        }
+
+        // An existing terminal can't take a new directory, environment or shell, so use one of its own
+        let mode = item.runMode ?? getDefaultRunMode();
+        if (mode === 'activeTerminal' && (item.cwd || item.env || item.shell)) {
+            mode = 'dedicatedTerminal';
+        }
+
+        return {
+            commandId: item.id,
+            scopeId,
+            label: item.name || variant.command,
+            command: commandText,
+            values,
+            cwd,
+            env: item.env,
+            shell: item.shell,
+            shellArgs: item.shellArgs,
+            interpreter: variant.interpreter,
+            mode
+        };
+    }
+
+    async createSequence(folderNode?: FolderNode): Promise<void> {
+        const scopeId = folderNode instanceof FolderNode ? folderNode.scopeId : USER_SCOPE;
+        const name = await vscode.window.showInputBox({
+            prompt: 'Enter a name for the sequence (e.g., "Install, Build and Serve")',
+            validateInput: value => value.trim() === '' ? 'A sequence needs a name' : undefined
+        });
+        if (name === undefined) { return; }
+
+        // Keep adding steps until the user is done
+        const steps: SequenceStep[] = [];
+        while (true) {
+            const step = await this.pickStep(scopeId, `Step ${steps.length + 1} of "${name.trim()}"`, steps.length > 0);
+            if (step === undefined) { return; } // Cancelled
+            if (step === 'done') { break; }
+            steps.push(step);
+        }
+
+        try {
+            const added = await this._commandFsProvider.addCommandItem({
+                kind: 'sequence',
+                name: name.trim(),
+                command: '',
+                steps,
+                folder: folderNode instanceof FolderNode ? folderNode.folderPath || undefined : undefined
+            }, scopeId);
+            await this._trust.markReviewed([added]);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to create sequence: ${error.message}`);
+        }
+    }
+
+    // Adds, removes, reorders and configures the steps of a sequence
+    async editSequence(node: CommandNode): Promise<void> {
+        const sequence = node.item;
+        const steps: SequenceStep[] = (sequence.steps ?? []).map(step => ({ ...step }));
+        const title = `Edit "${sequence.name}"`;
+
+        while (true) {
+            const choice = await vscode.window.showQuickPick<vscode.QuickPickItem & { index?: number; action?: 'add' | 'save' }>([
+                ...steps.map((step, index) => {
+                    const item = this._commandFsProvider.getCommandById(step.commandId, node.scopeId);
+                    return {
+                        label: `${index + 1}. ${item ? item.name || item.command : '$(warning) Missing command'}`,
+                        description: [...(step.parallel ? ['parallel'] : []), ...(step.continueOnError ? ['continue on failure'] : [])].join(' · '),
+                        index
+                    };
+                }),
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(add) Add Step...', action: 'add' },
+                { label: '$(check) Save', action: 'save' }
+            ], { title, placeHolder: 'Select a step to change it' });
+
+            if (!choice) { return; } // Cancelled
+            if (choice.action === 'save') {
+                const duplicate = findParallelDuplicate(steps);
+                if (duplicate === undefined) { break; }
+                vscode.window.showWarningMessage(`Step ${duplicate + 1} runs the same command as a step it runs in parallel with. A command runs once at a time, so let it run after the previous step.`);
+                continue;
+            }
+            if (choice.action === 'add') {
+                const step = await this.pickStep(node.scopeId, title, false);
+                if (step && step !== 'done') {
+                    steps.push(step);
                 }
+                continue;
+            }
+            if (choice.index === undefined) { continue; }
 
-                if (newCommands.length > 0) {
-                    // Add new commands through the file system provider
-                    for (const cmd of newCommands) {
-                        await this._commandFsProvider.addCommandItem(cmd);
-                    }
-                    this.refresh();
-                    vscode.window.showInformationMessage(`Successfully imported ${commandsAdded} new commands.`);
-                } else {
-                    vscode.window.showInformationMessage('No new commands were imported (all were duplicates or file was empty).');
+            const index = choice.index;
+            const step = steps[index];
+            const action = await vscode.window.showQuickPick([
+                { label: step.continueOnError ? 'Stop the Sequence if This Step Fails' : 'Continue if This Step Fails', action: 'continueOnError' },
+                ...(index > 0 ? [{ label: step.parallel ? 'Run After the Previous Step' : 'Run in Parallel with the Previous Step', action: 'parallel' }] : []),
+                ...(index > 0 ? [{ label: 'Move Up', action: 'up' }] : []),
+                ...(index < steps.length - 1 ? [{ label: 'Move Down', action: 'down' }] : []),
+                { label: 'Remove Step', action: 'remove' }
+            ], { title, placeHolder: `Step ${index + 1}` });
+
+            switch (action?.action) {
+                case 'continueOnError':
+                    step.continueOnError = !step.continueOnError || undefined;
+                    break;
+                case 'parallel':
+                    step.parallel = !step.parallel || undefined;
+                    break;
+                case 'up':
+                    steps.splice(index - 1, 0, ...steps.splice(index, 1));
+                    break;
+                case 'down':
+                    steps.splice(index + 1, 0, ...steps.splice(index, 1));
+                    break;
+                case 'remove':
+                    steps.splice(index, 1);
+                    break;
+            }
+        }
+
+        try {
+            await this.updateCommand(sequence.id, node.scopeId, { steps });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to update sequence: ${error.message}`);
+        }
+    }
+
+    // Lets the user pick a saved command of the scope as a step. Returns 'done' when the user finishes, undefined if cancelled.
+    private async pickStep(scopeId: string, title: string, canFinish: boolean): Promise<SequenceStep | 'done' | undefined> {
+        const commands = this._commandFsProvider.getAllCommandItems(scopeId).filter(item => item.kind !== 'sequence');
+        if (commands.length === 0) {
+            vscode.window.showInformationMessage('Save some commands first, then chain them in a sequence.');
+            return undefined;
+        }
+
+        const choice = await vscode.window.showQuickPick([
+            ...(canFinish ? [{ label: '$(check) Done', description: 'Save the sequence', item: undefined }] : []),
+            ...commands.map(item => ({
+                label: item.name || item.command,
+                description: item.folder ? `/${item.folder}` : undefined,
+                detail: item.name ? item.command : undefined,
+                item
+            }))
+        ], { title, placeHolder: 'Select the command to run next', matchOnDetail: true });
+        if (!choice) { return undefined; }
+        return choice.item ? { commandId: choice.item.id } : 'done';
+    }
+
+    // Edits the working directory, environment and shell of a command from the tree, or of the one open in the editor
+    async configureCommand(node?: CommandNode): Promise<void> {
+        const target = node instanceof CommandNode
+            ? { item: node.item, scopeId: node.scopeId }
+            : vscode.window.activeTextEditor && this._commandFsProvider.getCommandByUri(vscode.window.activeTextEditor.document.uri);
+        if (!target) {
+            vscode.window.showInformationMessage('Select a command to configure.');
+            return;
+        }
+
+        const settings = await editRunSettings(target.item);
+        if (!settings) { return; }
+
+        try {
+            await this.updateCommand(target.item.id, target.scopeId, settings);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to update command: ${error.message}`);
+        }
+    }
+
+    stopCommand(node: CommandNode): void {
+        if (node.item.kind === 'sequence') {
+            this._sequenceRunner.stop(node.item.id, node.item.steps ?? []);
+        } else {
+            this._runner.stop(node.item.id);
+        }
+    }
+
+    async setRunMode(node: CommandNode): Promise<void> {
+        const currentMode = node.item.runMode;
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: 'Use Default', description: `Currently "${RUN_MODE_LABELS[getDefaultRunMode()]}"`, mode: undefined, picked: currentMode === undefined },
+                ...(Object.keys(RUN_MODE_LABELS) as RunMode[]).map(mode => ({
+                    label: RUN_MODE_LABELS[mode],
+                    description: mode === currentMode ? '(current)' : undefined,
+                    mode
+                }))
+            ],
+            { placeHolder: `How should "${node.item.name || node.item.command}" run?` }
+        );
+        if (!picked) { return; }
+
+        try {
+            await this.updateCommand(node.item.id, node.scopeId, { runMode: picked.mode });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to update command: ${error.message}`);
+        }
+    }
+
+    async exportCommands(node?: CommandsTreeNode, nodes?: CommandsTreeNode[]): Promise<void> {
+        // Preselect what was selected in the view; from the title bar everything is preselected
+        const selected = { commands: new Set<string>(), folders: new Set<string>() };
+        for (const selectedNode of nodes ?? (node ? [node] : [])) {
+            if (selectedNode instanceof CommandNode) {
+                selected.commands.add(selectedNode.item.id);
+            } else if (selectedNode instanceof ScopeNode) {
+                this._commandFsProvider.getAllCommandItems(selectedNode.scopeId).forEach(item => selected.commands.add(item.id));
+            } else if (selectedNode instanceof FolderNode) {
+                selected.folders.add(`${selectedNode.scopeId}/${selectedNode.folderPath}`);
+            }
+        }
+
+        try {
+            const commandsToExport = await pickExportItems(this._commandFsProvider, selected);
+            if (!commandsToExport) { return; }
+            if (commandsToExport.length === 0) {
+                vscode.window.showInformationMessage('No commands to export.');
+                return;
+            }
+            const format = await pickExportFormat();
+            if (!format) { return; }
+
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+            const date = new Date();
+            const defaultFileName = {
+                json: `my-commands-${date.toISOString().slice(0, 10)}.json`,
+                shell: 'commands.sh',
+                tasks: path.join('.vscode', 'tasks.json')
+            }[format];
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Export Commands',
+                defaultUri: vscode.Uri.file(path.join(workspaceFolder, defaultFileName)),
+                filters: format === 'shell' ? { 'Shell Scripts': ['sh'] } : { 'JSON Files': ['json'] }
+            });
+            if (!uri) { return; }
+
+            let content: string;
+            if (format === 'json') {
+                content = JSON.stringify(commandsToExport, null, 2);
+            } else if (format === 'shell') {
+                content = toShellScript(commandsToExport, date);
+            } else {
+                // Add to an existing tasks.json instead of replacing it
+                let existing = '';
+                try {
+                    existing = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                } catch {
+                    // A new file
                 }
+                content = mergeTasksJson(existing, toTasks(commandsToExport));
+            }
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            if (format === 'shell' && uri.scheme === 'file') {
+                await fs.promises.chmod(uri.fsPath, 0o755);
+            }
+            vscode.window.showInformationMessage(`Exported ${commandsToExport.length} commands to ${uri.fsPath}`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export commands: ${error.message}`);
+            console.error('Export commands error:', error);
+        }
+    }
+
+    async importCommands(node?: FolderNode): Promise<void> {
+        try {
+            const scope = await this.pickImportScope(node);
+            if (!scope) { return; }
+
+            let source: { candidates: ImportCandidate[]; folders: string[] } | undefined;
+            try {
+                source = await pickImportCandidates(scope);
+            } catch (parseError: any) {
+                vscode.window.showErrorMessage(`Invalid file: ${parseError.message}`);
+                return;
+            }
+            if (source) {
+                await this.importInto(scope, source);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to import commands: ${error.message}`);
+            console.error('Import commands error:', error);
+        }
+    }
 
+    // Imports a commands file from a `vscode://` link, after asking and showing the usual preview
+    async importFromUrl(url: string): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            'A link wants to import commands. Continue?',
+            { modal: true, detail: `${url}\n\nYou can review the commands before anything is imported. Imported commands are shown in full before they run for the first time.` },
+            'Continue'
+        );
+        if (confirmation !== 'Continue') { return; }
+
+        try {
+            const scope = await this.pickImportScope();
+            if (!scope) { return; }
+
+            let source: { candidates: ImportCandidate[]; folders: string[] };
+            try {
+                source = await downloadCommandsFile(url);
+            } catch (downloadError: any) {
+                vscode.window.showErrorMessage(`Failed to import commands from ${url}: ${downloadError.message}`);
+                return;
             }
+            await this.importInto(scope, source);
         } catch (error: any) {
             vscode.window.showErrorMessage(`Failed to import commands: ${error.message}`);
             console.error('Import commands error:', error);
         }
     }
+
+    // The scope that was clicked, otherwise asks when there is more than one
+    private async pickImportScope(node?: FolderNode): Promise<CommandScopeInfo | undefined> {
+        const scopes = this._commandFsProvider.getScopes().filter(scope => !scope.loadError);
+        if (node) {
+            return scopes.find(candidate => candidate.id === node.scopeId);
+        }
+        if (scopes.length <= 1) {
+            return scopes[0];
+        }
+        return (await vscode.window.showQuickPick(
+            scopes.map(candidate => ({ label: candidate.label, description: candidate.workspaceFolder?.uri.fsPath, scope: candidate })),
+            { title: 'Import Commands', placeHolder: 'Import the commands into' }
+        ))?.scope;
+    }
+
+    // Shows the preview, then adds the commands the user chose. Imported commands wait for a review.
+    private async importInto(scope: CommandScopeInfo, source: { candidates: ImportCandidate[]; folders: string[] }): Promise<void> {
+        if (source.candidates.length === 0) {
+            vscode.window.showInformationMessage('No commands found to import.');
+            return;
+        }
+
+        const entries = classifyImport(source.candidates, this._commandFsProvider.getAllCommandItems(scope.id));
+        if (!await previewImport(entries, `Import Commands into ${scope.label}`)) { return; }
+
+        const result = await this._undoStack.group(`Import into ${scope.label}`, async () => {
+            for (const folder of source.folders) {
+                await this._commandFsProvider.ensureFolder(normalizeFolderPath(folder), scope.id);
+            }
+            return applyImport(this._commandFsProvider, scope.id, entries);
+        });
+        await this._trust.markImported(result.ids);
+        this.refresh();
+        vscode.window.showInformationMessage(`Imported commands: ${result.added} added, ${result.overwritten} overwritten, ${result.skipped} skipped.`);
+    }
 }
 
 /**
  * Activates the extension.
  * @param context The extension context provided by VS Code.
  */
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): CommandsViewerApi {
+    // Sync the user's commands and favorites through Settings Sync; review state, run counts and history stay local
+    context.globalState.setKeysForSync([...SYNCED_COMMAND_KEYS, ...SYNCED_USAGE_KEYS]);
+
     const commandFsProvider = new CommandFileSystemProvider(context);
+    context.subscriptions.push(commandFsProvider);
     vscode.workspace.registerFileSystemProvider(commandFsScheme, commandFsProvider, {
         // Options like `isCaseSensitive` can be added if needed
     });
 
-    const commandsProvider = new CommandsProvider(context, commandFsProvider);
+    const runHistory = new RunHistory(context.globalState);
+    const runner = new CommandRunner(runHistory);
+    const runHistoryProvider = new RunHistoryProvider(runHistory);
+    const sequenceRunner = new SequenceRunner(runner);
+    context.subscriptions.push(runner, sequenceRunner);
+
+    const usage = new CommandUsage(context.globalState);
+    const trust = new CommandTrust(context.globalState);
+    // Every saved change can be undone for the rest of the session; scope IDs change with the workspace folders
+    const undoStack = new UndoStack((scopeId, states) => commandFsProvider.restoreCommands(scopeId, states));
+    commandFsProvider.onDidChangeCommands(changes => undoStack.push(changes));
+    vscode.workspace.onDidChangeWorkspaceFolders(() => undoStack.clear());
+    undoStack.onDidChange(() => {
+        vscode.commands.executeCommand('setContext', 'commandsViewer.canUndo', undoStack.undoLabel !== undefined);
+        vscode.commands.executeCommand('setContext', 'commandsViewer.canRedo', undoStack.redoLabel !== undefined);
+    });
+    const commandsProvider = new CommandsProvider(context, commandFsProvider, runner, sequenceRunner, usage, trust, undoStack);
+    // Remember how background runs ended, for the status colors and the insights
+    runner.onDidChangeRunState(commandId => {
+        const state = runner.getRunState(commandId);
+        if (state && !state.running && state.exitCode !== undefined) {
+            usage.recordExitCode(commandId, state.exitCode);
+        }
+    });
+    const insightsProvider = new CommandInsightsProvider(commandFsProvider, usage);
+    const statusDecorations = new CommandStatusDecorations(commandFsProvider, usage);
+
+    const treeView = vscode.window.createTreeView('commandsViewer', {
+        treeDataProvider: commandsProvider,
+        dragAndDropController: commandsProvider,
+        canSelectMany: true
+    });
+
+    // Show the active filter next to the view title; the context key shows the button that clears it
+    commandsProvider.onDidChangeFilter(filter => {
+        treeView.description = filter ? `Filter: ${filter}` : undefined;
+        vscode.commands.executeCommand('setContext', 'commandsViewer.filterActive', filter !== '');
+    });
 
-    vscode.window.registerTreeDataProvider('commandsViewer', commandsProvider);
+    // Highlighting, diagnostics, completion and hovers in the command editor
+    const languageFeatures = new CommandLanguageFeatures(commandFsProvider);
+    const documentSelector: vscode.DocumentSelector = { scheme: commandFsScheme, language: COMMAND_LANGUAGE_ID };
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('commandsViewer.createNewCommand', () => commandsProvider.createNewCommand()),
+        languageFeatures,
+        vscode.languages.registerCompletionItemProvider(documentSelector, languageFeatures, '{', ':'),
+        vscode.languages.registerHoverProvider(documentSelector, languageFeatures),
+        treeView,
+        vscode.window.registerTreeDataProvider('commandsViewerHistory', runHistoryProvider),
+        vscode.window.createTreeView('commandsViewerInsights', { treeDataProvider: insightsProvider, canSelectMany: true }),
+        statusDecorations,
+        vscode.window.registerFileDecorationProvider(statusDecorations),
+        vscode.commands.registerCommand('commandsViewer.archiveCommands', (node?: InsightsTreeNode, nodes?: InsightsTreeNode[]) => commandsProvider.archiveCommands(getSelectedCommands(node, nodes))),
+        vscode.commands.registerCommand('commandsViewer.removeCommands', (node?: InsightsTreeNode, nodes?: InsightsTreeNode[]) => commandsProvider.removeCommands(getSelectedCommands(node, nodes))),
+        vscode.commands.registerCommand('commandsViewer.createNewCommand', (node?: FolderNode) => commandsProvider.createNewCommand(node)),
         vscode.commands.registerCommand('commandsViewer.duplicateCommand', (node: CommandNode) => commandsProvider.duplicateCommand(node)),
         vscode.commands.registerCommand('commandsViewer.removeCommand', (node: CommandNode) => commandsProvider.removeCommand(node)),
         vscode.commands.registerCommand('commandsViewer.runCommand', (node: CommandNode) => commandsProvider.runCommand(node)),
+        vscode.commands.registerCommand('commandsViewer.quickRun', () => commandsProvider.quickRun()),
+        vscode.commands.registerCommand('commandsViewer.run', (reference?: string | { id?: string; name?: string }) => commandsProvider.runByReference(reference)),
+        vscode.commands.registerCommand('commandsViewer.stopCommand', (node: CommandNode) => commandsProvider.stopCommand(node)),
+        vscode.commands.registerCommand('commandsViewer.setRunMode', (node: CommandNode) => commandsProvider.setRunMode(node)),
+        vscode.commands.registerCommand('commandsViewer.createSequence', (node?: FolderNode) => commandsProvider.createSequence(node)),
+        vscode.commands.registerCommand('commandsViewer.editSequence', (node: CommandNode) => commandsProvider.editSequence(node)),
+        vscode.commands.registerCommand('commandsViewer.configureCommand', (node?: CommandNode) => commandsProvider.configureCommand(node)),
+        vscode.commands.registerCommand('commandsViewer.showRunOutput', (node: RunHistoryNode) => runHistoryProvider.showOutput(node)),
+        vscode.commands.registerCommand('commandsViewer.rerunFromHistory', (node: RunHistoryNode) => commandsProvider.rerun(node.entry)),
+        vscode.commands.registerCommand('commandsViewer.clearRunHistory', () => runHistoryProvider.clearHistory()),
+        vscode.commands.registerCommand('commandsViewer.moveCommand', (node: CommandNode) => commandsProvider.moveCommand(node)),
+        vscode.commands.registerCommand('commandsViewer.moveToScope', (node: CommandNode) => commandsProvider.transferToScope(node, 'move')),
+        vscode.commands.registerCommand('commandsViewer.copyToScope', (node: CommandNode) => commandsProvider.transferToScope(node, 'copy')),
+        vscode.commands.registerCommand('commandsViewer.createFolder', (node?: FolderNode) => commandsProvider.createFolder(node)),
+        vscode.commands.registerCommand('commandsViewer.renameFolder', (node: FolderNode) => commandsProvider.renameFolder(node)),
+        vscode.commands.registerCommand('commandsViewer.removeFolder', (node: FolderNode) => commandsProvider.removeFolder(node)),
         vscode.commands.registerCommand('commandsViewer.refreshEntry', () => commandsProvider.refresh()),
-        vscode.commands.registerCommand('commandsViewer.exportCommands', () => commandsProvider.exportCommands()), // New export command
-        vscode.commands.registerCommand('commandsViewer.importCommands', () => commandsProvider.importCommands())  // New import command
+        vscode.commands.registerCommand('commandsViewer.exportCommands', (node?: CommandsTreeNode, nodes?: CommandsTreeNode[]) => commandsProvider.exportCommands(node, nodes)),
+        vscode.commands.registerCommand('commandsViewer.importCommands', (node?: FolderNode) => commandsProvider.importCommands(node)),
+        vscode.commands.registerCommand('commandsViewer.filterCommands', () => commandsProvider.showFilterBox()),
+        vscode.commands.registerCommand('commandsViewer.clearFilter', () => commandsProvider.setFilter('')),
+        vscode.commands.registerCommand('commandsViewer.sortBy', () => commandsProvider.sortBy()),
+        vscode.commands.registerCommand('commandsViewer.addToFavorites', (node: CommandNode, nodes?: CommandsTreeNode[]) => commandsProvider.setFavorite(node, nodes, true)),
+        vscode.commands.registerCommand('commandsViewer.markReviewed', (node: CommandNode, nodes?: CommandsTreeNode[]) => commandsProvider.markReviewed(node, nodes)),
+        vscode.commands.registerCommand('commandsViewer.setConfirmation', (node: CommandNode) => commandsProvider.setConfirmation(node)),
+        vscode.commands.registerCommand('commandsViewer.removeFromFavorites', (node: CommandNode, nodes?: CommandsTreeNode[]) => commandsProvider.setFavorite(node, nodes, false)),
+        vscode.commands.registerCommand('commandsViewer.undo', () => commandsProvider.undo()),
+        vscode.commands.registerCommand('commandsViewer.redo', () => commandsProvider.redo()),
+        vscode.commands.registerCommand('commandsViewer.showHistory', (node?: CommandNode) => commandsProvider.showHistory(node)),
+        vscode.commands.registerCommand('commandsViewer.restoreDeleted', (node: DeletedCommandNode, nodes?: CommandsTreeNode[]) => commandsProvider.restoreDeleted(node, nodes)),
+        vscode.commands.registerCommand('commandsViewer.deletePermanently', (node: DeletedCommandNode, nodes?: CommandsTreeNode[]) => commandsProvider.deletePermanently(node, nodes)),
+        vscode.commands.registerCommand('commandsViewer.emptyTrash', () => commandsProvider.emptyTrash()),
+        vscode.window.registerUriHandler(new CommandsUriHandler(commandsProvider))
     );
+
+    return createApi(commandFsProvider, commandsProvider);
+}
+
+// Markdown tooltip with the command text and any run settings
+function describeCommand(item: CommandItem): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    if (item.description) {
+        tooltip.appendText(item.description);
+        tooltip.appendMarkdown('\n\n');
+    }
+    if (item.command.trim() !== '') {
+        tooltip.appendCodeblock(item.command, 'shellscript');
+    }
+    if (item.interpreter) {
+        tooltip.appendMarkdown(`**Interpreter:** \`${item.interpreter}\`\n\n`);
+    }
+    for (const platform of PLATFORMS) {
+        const variant = item.platforms?.[platform];
+        if (variant) {
+            tooltip.appendMarkdown(`**${PLATFORM_LABELS[platform]}**${variant.interpreter ? ` (\`${variant.interpreter}\`)` : ''}:`);
+            tooltip.appendCodeblock(variant.command, 'shellscript');
+        }
+    }
+    if (!selectVariant(item)) {
+        tooltip.appendMarkdown(`**No variant for ${getPlatformLabel()}.** It can't run here.\n\n`);
+    }
+    if (item.tags && item.tags.length > 0) {
+        tooltip.appendMarkdown(`**Tags:** ${item.tags.map(tag => `\`${tag}\``).join(', ')}\n\n`);
+    }
+    if (item.cwd) {
+        tooltip.appendMarkdown(`**Working directory:** \`${item.cwd}\`\n\n`);
+    }
+    if (item.env && Object.keys(item.env).length > 0) {
+        tooltip.appendMarkdown(`**Environment:** ${Object.entries(item.env).map(([name, value]) => `\`${name}=${value}\``).join(', ')}\n\n`);
+    }
+    if (item.shell) {
+        tooltip.appendMarkdown(`**Shell:** \`${[item.shell, ...(item.shellArgs ?? [])].join(' ')}\`\n\n`);
+    }
+    return tooltip;
+}
+
+// Icon for a sequence step, from the progress of the current or last run
+function getStepIcon(progress: StepProgress | undefined): vscode.ThemeIcon {
+    switch (progress?.status) {
+        case 'running':
+            return new vscode.ThemeIcon('sync~spin');
+        case 'passed':
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case 'failed':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        case 'skipped':
+            return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('testing.iconSkipped'));
+        default:
+            return new vscode.ThemeIcon('circle-outline');
+    }
+}
+
+// The run mode for commands that don't set their own
+function getDefaultRunMode(): RunMode {
+    return vscode.workspace.getConfiguration('commandsViewer').get<RunMode>('defaultRunMode', 'activeTerminal');
+}
+
+// Rejects empty folder names and names that would create nested paths
+function validateFolderName(value: string): string | undefined {
+    if (value.trim() === '') {
+        return 'Folder name cannot be empty';
+    }
+    if (value.includes('/')) {
+        return 'Folder name cannot contain "/"';
+    }
+    return undefined;
 }
 
 export function deactivate() { }
\ No newline at end of file
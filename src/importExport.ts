@@ -0,0 +1,477 @@
+import * as vscode from 'vscode';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandItem, NewCommandItem } from './extension';
+import { CommandFileSystemProvider, CommandScopeInfo, normalizeFolderPath } from './commandFs';
+import { parseCommandsFile } from './commandSchema';
+import { StoredCommands } from './commandStore';
+import { parseMakefileTargets, parsePackageJsonScripts, parseShellHistory, parseTasksJson } from './importSources';
+
+/**
+ * A command read from an import source. `sourceId` is its ID in an exported commands file,
+ * used to reconnect the steps of imported sequences.
+ */
+export interface ImportCandidate {
+    item: NewCommandItem;
+    sourceId?: string;
+}
+
+export type ImportStatus = 'new' | 'conflict' | 'identical';
+export type ImportAction = 'add' | 'skip' | 'overwrite' | 'keepBoth' | 'rename';
+
+/**
+ * An import candidate compared with the commands of the target scope, and what to do with it.
+ */
+export interface ImportEntry extends ImportCandidate {
+    status: ImportStatus;
+    existing?: CommandItem; // The command it is identical to or conflicts with
+    action: ImportAction;
+    newName?: string;       // Set for 'rename'
+}
+
+export type ExportFormat = 'json' | 'shell' | 'tasks';
+
+const ACTION_LABELS: { [action in ImportAction]: string } = {
+    add: 'Add',
+    skip: 'Skip',
+    overwrite: 'Overwrite',
+    keepBoth: 'Keep Both',
+    rename: 'Rename'
+};
+
+const STATUS_LABELS: { [status in ImportStatus]: string } = {
+    new: 'New',
+    conflict: 'Conflicts',
+    identical: 'Identical'
+};
+
+// History files of the common shells, relative to the home directory
+const HISTORY_FILES = ['.bash_history', '.zsh_history', '.local/share/fish/fish_history'];
+
+// Limits for commands files downloaded from links
+const MAX_DOWNLOAD_SIZE = 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT = 15000; // Milliseconds
+
+/**
+ * Lets the user pick an import source and reads its commands.
+ * @param scope The scope the commands go to; relative working directories are based on its workspace folder.
+ * @returns The commands, or `undefined` if the user cancelled.
+ */
+export async function pickImportCandidates(scope: CommandScopeInfo): Promise<{ candidates: ImportCandidate[]; folders: string[] } | undefined> {
+    const workspaceUri = scope.workspaceFolder?.uri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+    const source = (await vscode.window.showQuickPick([
+        { label: '$(json) Commands File', description: 'Exported from Commands Viewer', source: 'json' },
+        { label: '$(package) package.json Scripts', description: 'npm, yarn, pnpm or bun', source: 'packageJson' },
+        { label: '$(tools) Makefile Targets', source: 'makefile' },
+        { label: '$(checklist) VS Code Tasks', description: 'tasks.json', source: 'tasks' },
+        { label: '$(history) Shell History', description: 'bash, zsh or fish', source: 'history' }
+    ], { title: 'Import Commands', placeHolder: 'Where should the commands come from?' }))?.source;
+    if (!source) { return undefined; }
+
+    if (source === 'history') {
+        const commands = await pickHistoryCommands();
+        return commands && placeInFolder(commands.map(command => ({ command })), 'Shell History');
+    }
+
+    const defaultUri = workspaceUri && {
+        json: workspaceUri,
+        packageJson: vscode.Uri.joinPath(workspaceUri, 'package.json'),
+        makefile: vscode.Uri.joinPath(workspaceUri, 'Makefile'),
+        tasks: vscode.Uri.joinPath(workspaceUri, '.vscode', 'tasks.json')
+    }[source];
+    const uri = (await vscode.window.showOpenDialog({
+        title: 'Import Commands',
+        defaultUri,
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: source === 'makefile' ? undefined : { 'JSON Files': ['json'] }
+    }))?.[0];
+    if (!uri) { return undefined; }
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+
+    if (source === 'json') {
+        return toCandidates(parseCommandsFile(text));
+    }
+
+    // Commands from the other sources run in the directory of the file they come from
+    const cwd = toRelativeCwd(path.dirname(uri.fsPath), scope.workspaceFolder);
+    if (source === 'packageJson') {
+        const runner = await detectPackageManager(vscode.Uri.joinPath(uri, '..'));
+        return placeInFolder(parsePackageJsonScripts(text, runner, cwd), `${runner} scripts`);
+    }
+    if (source === 'makefile') {
+        return placeInFolder(parseMakefileTargets(text, cwd), 'make');
+    }
+    return placeInFolder(parseTasksJson(text), 'tasks');
+}
+
+/**
+ * Downloads and checks an exported commands file. Only `https:` URLs are accepted.
+ * @throws Error if the download fails, or SchemaError if the file is invalid.
+ */
+export async function downloadCommandsFile(url: string): Promise<{ candidates: ImportCandidate[]; folders: string[] }> {
+    return toCandidates(parseCommandsFile(await download(url, MAX_REDIRECTS)));
+}
+
+// Commands get new IDs and timestamps when added; the old IDs reconnect the steps of sequences
+export function toCandidates(file: StoredCommands): { candidates: ImportCandidate[]; folders: string[] } {
+    return {
+        candidates: file.commands.map(({ id, createdAt, modifiedAt, ...item }) => ({ item, sourceId: id })),
+        folders: file.folders
+    };
+}
+
+function download(url: string, redirects: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        if (!url.startsWith('https://')) {
+            reject(new Error('Only https:// links can be imported.'));
+            return;
+        }
+        const request = https.get(url, { timeout: DOWNLOAD_TIMEOUT }, response => {
+            const status = response.statusCode ?? 0;
+            if (status >= 300 && status < 400 && response.headers.location) {
+                response.resume();
+                if (redirects === 0) {
+                    reject(new Error('Too many redirects.'));
+                } else {
+                    download(new URL(response.headers.location, url).toString(), redirects - 1).then(resolve, reject);
+                }
+                return;
+            }
+            if (status !== 200) {
+                response.resume();
+                reject(new Error(`The server responded with ${status}.`));
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            response.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_DOWNLOAD_SIZE) {
+                    request.destroy(new Error('The file is larger than 1 MB.'));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            response.on('error', reject);
+        });
+        request.on('timeout', () => request.destroy(new Error('The download timed out.')));
+        request.on('error', reject);
+    });
+}
+
+// Asks for the folder to put commands from an external source in
+async function placeInFolder(items: NewCommandItem[], defaultFolder: string): Promise<{ candidates: ImportCandidate[]; folders: string[] } | undefined> {
+    if (items.length === 0) {
+        return { candidates: [], folders: [] };
+    }
+    const folder = await vscode.window.showInputBox({
+        title: 'Import Commands',
+        prompt: `Folder for the ${items.length} imported commands, e.g. "Tools/Build". Leave empty for the top level.`,
+        value: defaultFolder
+    });
+    if (folder === undefined) { return undefined; }
+    return { candidates: items.map(item => ({ item: { ...item, folder: normalizeFolderPath(folder) || undefined } })), folders: [] };
+}
+
+// Offers the history files found in the home directory, then lets the user pick commands from one
+async function pickHistoryCommands(): Promise<string[] | undefined> {
+    const found: vscode.Uri[] = [];
+    for (const file of HISTORY_FILES) {
+        const uri = vscode.Uri.file(path.join(os.homedir(), file));
+        try {
+            await vscode.workspace.fs.stat(uri);
+            found.push(uri);
+        } catch {
+            // Not used on this machine
+        }
+    }
+
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem & { uri?: vscode.Uri }>([
+        ...found.map(uri => ({ label: path.basename(uri.fsPath), description: uri.fsPath, uri })),
+        { label: '$(folder-opened) Browse...' }
+    ], { title: 'Import from Shell History', placeHolder: 'Select a history file' });
+    if (!picked) { return undefined; }
+
+    const uri = picked.uri ?? (await vscode.window.showOpenDialog({
+        title: 'Import from Shell History',
+        defaultUri: vscode.Uri.file(os.homedir()),
+        canSelectFiles: true,
+        canSelectMany: false
+    }))?.[0];
+    if (!uri) { return undefined; }
+
+    const commands = parseShellHistory(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+    if (commands.length === 0) {
+        return [];
+    }
+    const selected = await vscode.window.showQuickPick(commands.map(command => ({ label: command.split('\n')[0], detail: command.includes('\n') ? command : undefined, command })), {
+        title: 'Import from Shell History',
+        placeHolder: 'Select the commands to import, most recent first',
+        canPickMany: true,
+        matchOnDetail: true
+    });
+    return selected?.map(item => item.command);
+}
+
+// The package manager whose lock file is next to the package.json, npm if there is none
+async function detectPackageManager(directory: vscode.Uri): Promise<string> {
+    const lockFiles: [string, string][] = [['yarn.lock', 'yarn'], ['pnpm-lock.yaml', 'pnpm'], ['bun.lockb', 'bun'], ['bun.lock', 'bun']];
+    for (const [file, runner] of lockFiles) {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(directory, file));
+            return runner;
+        } catch {
+            // Try the next one
+        }
+    }
+    return 'npm';
+}
+
+// A directory relative to the workspace folder when it is inside it, unset for the folder itself
+function toRelativeCwd(directory: string, workspaceFolder: vscode.WorkspaceFolder | undefined): string | undefined {
+    if (!workspaceFolder) {
+        return directory;
+    }
+    const relative = path.relative(workspaceFolder.uri.fsPath, directory);
+    if (relative === '') {
+        return undefined;
+    }
+    return relative.startsWith('..') || path.isAbsolute(relative) ? directory : relative.split(path.sep).join('/');
+}
+
+/**
+ * Compares import candidates with the commands of the target scope. An entry is identical to a command
+ * with the same name, folder and command text, and conflicts with one that only has the same name and folder.
+ * New entries are added by default; conflicting and identical ones are skipped.
+ */
+export function classifyImport(candidates: ImportCandidate[], existing: CommandItem[]): ImportEntry[] {
+    const displayName = (item: NewCommandItem) => item.name || item.command;
+    return candidates.map(candidate => {
+        const sameName = existing.filter(item =>
+            displayName(item) === displayName(candidate.item) &&
+            normalizeFolderPath(item.folder) === normalizeFolderPath(candidate.item.folder));
+        const identical = sameName.find(item => item.command === candidate.item.command && (item.kind ?? 'command') === (candidate.item.kind ?? 'command'));
+        if (identical) {
+            return { ...candidate, status: 'identical', existing: identical, action: 'skip' };
+        }
+        if (sameName.length > 0) {
+            return { ...candidate, status: 'conflict', existing: sameName[0], action: 'skip' };
+        }
+        return { ...candidate, status: 'new', action: 'add' };
+    });
+}
+
+interface PreviewItem extends vscode.QuickPickItem {
+    entry?: ImportEntry;
+    allConflicts?: boolean;
+    confirm?: boolean;
+}
+
+/**
+ * Shows the entries grouped by status and lets the user choose an action for each one.
+ * @returns `false` if the user cancelled.
+ */
+export async function previewImport(entries: ImportEntry[], title: string): Promise<boolean> {
+    const conflicts = entries.filter(entry => entry.status === 'conflict');
+    while (true) {
+        const count = (action: ImportAction) => entries.filter(entry => entry.action === action).length;
+        const items: PreviewItem[] = [
+            {
+                label: '$(check) Import',
+                description: `${count('add') + count('keepBoth') + count('rename')} to add, ${count('overwrite')} to overwrite, ${count('skip')} to skip`,
+                confirm: true
+            }
+        ];
+        if (conflicts.length > 0) {
+            items.push({ label: '$(settings) Resolve All Conflicts...', description: `${conflicts.length} conflicting`, allConflicts: true });
+        }
+        for (const status of ['new', 'conflict', 'identical'] as ImportStatus[]) {
+            const group = entries.filter(entry => entry.status === status);
+            if (group.length === 0) { continue; }
+            items.push({ label: STATUS_LABELS[status], kind: vscode.QuickPickItemKind.Separator });
+            items.push(...group.map(entry => ({
+                label: `$(${entry.item.kind === 'sequence' ? 'list-ordered' : 'terminal'}) ${entry.item.name || entry.item.command.split('\n')[0]}`,
+                description: `${entry.action === 'rename' ? `Rename to "${entry.newName}"` : ACTION_LABELS[entry.action]}${entry.item.folder ? ` · ${normalizeFolderPath(entry.item.folder)}` : ''}`,
+                detail: entry.item.kind === 'sequence' ? `Sequence of ${entry.item.steps?.length ?? 0} steps` : entry.item.command,
+                entry
+            })));
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title,
+            placeHolder: 'Select an entry to change what happens to it, or Import to continue',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!picked) { return false; }
+        if (picked.confirm) { return true; }
+
+        if (picked.allConflicts) {
+            const action = await pickAction(title, 'What should happen to all conflicting entries?', ['skip', 'overwrite', 'keepBoth']);
+            if (action) {
+                conflicts.forEach(entry => entry.action = action);
+            }
+        } else if (picked.entry) {
+            const entry = picked.entry;
+            const actions: ImportAction[] = entry.status === 'new' ? ['add', 'skip', 'rename'] : ['skip', 'overwrite', 'keepBoth', 'rename'];
+            const action = await pickAction(title, `What should happen to "${entry.item.name || entry.item.command}"?`, actions);
+            if (action === 'rename') {
+                const newName = await vscode.window.showInputBox({
+                    title,
+                    prompt: 'Name for the imported command',
+                    value: entry.newName ?? entry.item.name ?? '',
+                    validateInput: value => value.trim() ? null : 'The name cannot be empty.'
+                });
+                if (newName !== undefined) {
+                    entry.action = 'rename';
+                    entry.newName = newName.trim();
+                }
+            } else if (action) {
+                entry.action = action;
+            }
+        }
+    }
+}
+
+async function pickAction(title: string, placeHolder: string, actions: ImportAction[]): Promise<ImportAction | undefined> {
+    return (await vscode.window.showQuickPick(actions.map(action => ({ label: ACTION_LABELS[action], action })), { title, placeHolder }))?.action;
+}
+
+/**
+ * Adds, overwrites or skips the entries as chosen. Sequences are imported last, with their steps
+ * pointing to the imported (or already existing) commands.
+ * @returns How many commands were added, overwritten and skipped, and the IDs of the added and overwritten ones.
+ */
+export async function applyImport(fsProvider: CommandFileSystemProvider, scopeId: string, entries: ImportEntry[]): Promise<{ added: number; overwritten: number; skipped: number; ids: string[] }> {
+    const result = { added: 0, overwritten: 0, skipped: 0, ids: [] as string[] };
+    const idMap = new Map<string, string>(); // Source ID -> ID in the target scope
+    const ordered = [
+        ...entries.filter(entry => entry.item.kind !== 'sequence'),
+        ...entries.filter(entry => entry.item.kind === 'sequence')
+    ];
+
+    for (const entry of ordered) {
+        const item: NewCommandItem = entry.item.kind === 'sequence'
+            ? { ...entry.item, steps: entry.item.steps?.map(step => ({ ...step, commandId: idMap.get(step.commandId) ?? step.commandId })) }
+            : entry.item;
+        let id: string | undefined;
+        switch (entry.action) {
+            case 'skip':
+                id = entry.existing?.id;
+                result.skipped++;
+                break;
+            case 'overwrite':
+                id = (await fsProvider.updateCommandItem(entry.existing!.id, scopeId, { ...item, folder: entry.existing!.folder })).id;
+                result.overwritten++;
+                break;
+            case 'rename':
+                id = (await fsProvider.addCommandItem({ ...item, name: entry.newName }, scopeId)).id;
+                result.added++;
+                break;
+            default: // add, keepBoth
+                id = (await fsProvider.addCommandItem(item, scopeId)).id;
+                result.added++;
+        }
+        if (entry.sourceId && id) {
+            idMap.set(entry.sourceId, id);
+        }
+        if (id && entry.action !== 'skip') {
+            result.ids.push(id);
+        }
+    }
+    return result;
+}
+
+interface ExportPickItem extends vscode.QuickPickItem {
+    scopeId: string;
+    folder?: string;
+    item?: CommandItem;
+}
+
+/**
+ * Lets the user choose the commands and folders to export from all scopes. Choosing a folder
+ * exports everything in it; commands used by chosen sequences are included automatically.
+ * @param selected Commands (by ID) and folders (as "scopeId/path") to preselect; everything when empty.
+ * @returns The commands to export, or `undefined` if the user cancelled.
+ */
+export async function pickExportItems(fsProvider: CommandFileSystemProvider, selected: { commands: Set<string>; folders: Set<string> }): Promise<CommandItem[] | undefined> {
+    const scopes = fsProvider.getScopes().filter(scope => !scope.loadError);
+    const selectAll = selected.commands.size === 0 && selected.folders.size === 0;
+    const items: ExportPickItem[] = [];
+    for (const scope of scopes) {
+        const commands = fsProvider.getAllCommandItems(scope.id);
+        if (commands.length === 0) { continue; }
+        if (scopes.length > 1) {
+            items.push({ label: scope.label, kind: vscode.QuickPickItemKind.Separator, scopeId: scope.id });
+        }
+        items.push(...fsProvider.getAllFolders(scope.id).map(folder => ({
+            label: `$(folder) ${folder}`,
+            scopeId: scope.id,
+            folder,
+            picked: selected.folders.has(`${scope.id}/${folder}`)
+        })));
+        items.push(...commands
+            .sort((a, b) => (a.name || a.command).localeCompare(b.name || b.command))
+            .map(item => ({
+                label: `$(${item.kind === 'sequence' ? 'list-ordered' : 'terminal'}) ${item.name || item.command.split('\n')[0]}`,
+                description: normalizeFolderPath(item.folder) || undefined,
+                scopeId: scope.id,
+                item,
+                picked: selectAll || selected.commands.has(item.id)
+            })));
+    }
+    if (items.length === 0) {
+        return [];
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Export Commands',
+        placeHolder: 'Select the commands and folders to export',
+        canPickMany: true,
+        matchOnDescription: true
+    });
+    if (!picked) { return undefined; }
+
+    const result = new Map<string, CommandItem>();
+    for (const choice of picked) {
+        const all = fsProvider.getAllCommandItems(choice.scopeId);
+        const chosen = choice.item
+            ? [choice.item]
+            : all.filter(item => {
+                const folder = normalizeFolderPath(item.folder);
+                return folder === choice.folder || folder.startsWith(`${choice.folder}/`);
+            });
+        for (const item of chosen) {
+            result.set(item.id, item);
+            // A sequence needs its steps to work after importing
+            for (const step of item.steps ?? []) {
+                const stepItem = fsProvider.getCommandById(step.commandId, choice.scopeId);
+                if (stepItem && !result.has(stepItem.id)) {
+                    result.set(stepItem.id, stepItem);
+                }
+            }
+        }
+    }
+    // Steps first, so the exported files read in the order the commands are used
+    return [
+        ...Array.from(result.values()).filter(item => item.kind !== 'sequence'),
+        ...Array.from(result.values()).filter(item => item.kind === 'sequence')
+    ];
+}
+
+/**
+ * Lets the user choose the format to export commands in.
+ */
+export async function pickExportFormat(): Promise<ExportFormat | undefined> {
+    return (await vscode.window.showQuickPick([
+        { label: '$(json) Commands File', description: 'JSON, for importing into Commands Viewer', format: 'json' as ExportFormat },
+        { label: '$(terminal-bash) Shell Script', description: 'A standalone bash script', format: 'shell' as ExportFormat },
+        { label: '$(checklist) VS Code Tasks', description: 'Adds the commands to a tasks.json', format: 'tasks' as ExportFormat }
+    ], { title: 'Export Commands', placeHolder: 'Select the export format' }))?.format;
+}
@@ -0,0 +1,142 @@
+import * as jsonc from 'jsonc-parser';
+import { NewCommandItem } from './extension';
+import { lineAt, parseJsonTree, SchemaError } from './commandSchema';
+
+// Upper bound for commands read from a shell history file, most recent first
+const MAX_HISTORY_COMMANDS = 1000;
+
+/**
+ * Turns the `scripts` of a package.json into commands like `npm run build`.
+ * @param runner The package manager to run them with, e.g. "npm", "yarn" or "pnpm".
+ * @param cwd Working directory for the commands (the package's directory).
+ */
+export function parsePackageJsonScripts(text: string, runner: string = 'npm', cwd?: string): NewCommandItem[] {
+    const root = parseJsonTree(text);
+    const scripts = jsonc.findNodeAtLocation(root, ['scripts']);
+    if (!scripts) {
+        return [];
+    }
+    if (scripts.type !== 'object') {
+        throw new SchemaError('"scripts" must be an object.', lineAt(text, scripts.offset));
+    }
+    return Object.entries(jsonc.getNodeValue(scripts) as { [name: string]: unknown })
+        .filter(([, script]) => typeof script === 'string')
+        .map(([name, script]) => ({
+            name,
+            description: script as string,
+            command: `${runner} run ${quoteArgument(name)}`,
+            cwd
+        }));
+}
+
+/**
+ * Turns the explicit targets of a Makefile into `make <target>` commands.
+ * A `## comment` after the target becomes its description, as in the common self-documenting Makefile pattern.
+ */
+export function parseMakefileTargets(text: string, cwd?: string): NewCommandItem[] {
+    const targets = new Map<string, string | undefined>();
+    for (const line of text.split(/\r?\n/)) {
+        // Skip recipes, comments, variable assignments and special targets like .PHONY
+        const match = /^([A-Za-z0-9_][^:=#\s]*(?:[ \t]+[A-Za-z0-9_][^:=#\s]*)*)[ \t]*::?(?!=)([^#]*)(?:##?\s*(.*))?$/.exec(line);
+        if (!match) { continue; }
+        for (const target of match[1].split(/\s+/)) {
+            if (!target.includes('%') && !target.includes('$') && !targets.has(target)) {
+                targets.set(target, match[3]?.trim() || undefined);
+            }
+        }
+    }
+    return Array.from(targets, ([target, description]) => ({ name: target, description, command: `make ${target}`, cwd }));
+}
+
+/**
+ * Turns the shell, process and npm tasks of a `.vscode/tasks.json` into commands.
+ * `${workspaceFolder}` in a task's working directory becomes a path relative to the workspace folder.
+ */
+export function parseTasksJson(text: string): NewCommandItem[] {
+    const root = parseJsonTree(text);
+    const tasks = jsonc.findNodeAtLocation(root, ['tasks']);
+    if (!tasks) {
+        return [];
+    }
+    if (tasks.type !== 'array') {
+        throw new SchemaError('"tasks" must be an array.', lineAt(text, tasks.offset));
+    }
+
+    const commands: NewCommandItem[] = [];
+    for (const node of tasks.children!) {
+        const task = jsonc.getNodeValue(node);
+        if (typeof task !== 'object' || task === null) { continue; }
+
+        let command: string | undefined;
+        if (task.type === 'npm' && typeof task.script === 'string') {
+            command = `npm run ${quoteArgument(task.script)}`;
+        } else if ((task.type === 'shell' || task.type === 'process') && typeof task.command === 'string') {
+            const args: string[] = (Array.isArray(task.args) ? task.args : [])
+                .map((arg: unknown) => typeof arg === 'object' && arg !== null ? (arg as { value: unknown }).value : arg)
+                .filter((arg: unknown): arg is string => typeof arg === 'string');
+            command = [task.command, ...args.map(quoteArgument)].join(' ');
+        }
+        if (!command) { continue; } // Tasks without a command, e.g. only `dependsOn`, or from other task providers
+        command = command.replace(/\$\{input:([^}]+)\}/g, '${$1}'); // Task inputs become prompted placeholders
+
+        const options = typeof task.options === 'object' && task.options !== null ? task.options : {};
+        const shell = typeof options.shell === 'object' && options.shell !== null ? options.shell : {};
+        commands.push({
+            name: typeof task.label === 'string' ? task.label : task.type === 'npm' ? `npm: ${task.script}` : undefined,
+            description: typeof task.detail === 'string' ? task.detail : undefined,
+            command,
+            cwd: typeof options.cwd === 'string' ? toWorkspaceRelative(options.cwd) : undefined,
+            env: typeof options.env === 'object' && options.env !== null ? options.env : undefined,
+            shell: typeof shell.executable === 'string' ? shell.executable : undefined,
+            shellArgs: Array.isArray(shell.args) ? shell.args.filter((arg: unknown) => typeof arg === 'string') : undefined
+        });
+    }
+    return commands;
+}
+
+/**
+ * Reads the commands of a bash, zsh or fish history file, most recent first and without duplicates.
+ */
+export function parseShellHistory(text: string): string[] {
+    const entries: string[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+        let line = lines[index];
+        if (/^#\d+$/.test(line)) { continue; } // bash timestamp
+        if (/^\s+(when|paths):/.test(line)) { continue; } // fish metadata
+
+        const fish = /^- cmd: (.*)$/.exec(line);
+        if (fish) {
+            entries.push(fish[1].replace(/\\n/g, '\n').replace(/\\\\/g, '\\'));
+            continue;
+        }
+
+        line = line.replace(/^: \d+:\d+;/, ''); // zsh extended history
+        // zsh continues multi-line commands with a trailing backslash
+        while (line.endsWith('\\') && index + 1 < lines.length) {
+            line = `${line.slice(0, -1)}\n${lines[++index]}`;
+        }
+        entries.push(line);
+    }
+
+    const seen = new Set<string>();
+    const commands: string[] = [];
+    for (const entry of entries.reverse()) {
+        const command = entry.trim();
+        if (command !== '' && !seen.has(command)) {
+            seen.add(command);
+            commands.push(command);
+        }
+    }
+    return commands.slice(0, MAX_HISTORY_COMMANDS);
+}
+
+// Relative to the workspace folder when the path starts with ${workspaceFolder}, unset for the folder itself
+function toWorkspaceRelative(cwd: string): string | undefined {
+    const relative = cwd.replace(/^\$\{workspaceFolder\}[\/\\]?/, '');
+    return relative === cwd ? cwd : relative || undefined;
+}
+
+function quoteArgument(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
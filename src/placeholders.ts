@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+const LAST_VALUES_KEY = 'placeholderValues'; // workspaceState key for remembered answers
+
+// Matches `${...}`, optionally preceded by a backslash that escapes it
+const PLACEHOLDER_PATTERN = /(\\?)\$\{([^}]*)\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+// Names in capitals, like `${HOME}`, are environment variables and belong to the shell
+const SHELL_VARIABLE_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+// Shell expansions like `${name:-default}` or `${name:?message}`, which aren't placeholder defaults
+const SHELL_EXPANSION_PATTERN = /^[-=+?]/;
+
+// Built-in variables resolved from the editor state instead of prompting
+export const BUILTIN_VARIABLES: { [name: string]: string } = {
+    workspaceFolder: 'The path of the workspace folder',
+    workspaceFolderBasename: 'The name of the workspace folder',
+    file: 'The path of the file open in the active editor',
+    fileBasename: 'The base name of the active file',
+    fileBasenameNoExtension: 'The base name of the active file without its extension',
+    fileDirname: 'The directory of the active file',
+    fileExtname: 'The extension of the active file',
+    relativeFile: 'The active file relative to the workspace folder',
+    selectedText: 'The text selected in the active editor',
+    lineNumber: 'The line number of the cursor in the active editor',
+    pathSeparator: 'The path separator of the current OS'
+};
+
+// Prefixes like `${env:NAME}` that take an argument instead of a default value
+export const BUILTIN_PREFIXES: { [prefix: string]: string } = {
+    env: 'The value of an environment variable',
+    config: 'The value of a VS Code setting'
+};
+
+/**
+ * A single `${...}` occurrence found in a command string.
+ */
+export interface Placeholder {
+    raw: string;            // The full text as it appears in the command, e.g. "${pod:web-0}"
+    offset: number;         // Position of `raw` inside the command
+    name: string;           // Variable name, or the built-in/prefix name
+    argument?: string;      // Argument of a prefixed built-in, e.g. "HOME" for "${env:HOME}"
+    defaultValue?: string;  // Default for a prompted variable ("${name:default}")
+    choices?: string[];     // Pick-list for a prompted variable ("${name|a,b,c}")
+    builtin: boolean;       // True when resolved without prompting
+}
+
+/**
+ * Result of resolving every placeholder in a command.
+ */
+export interface ResolvedCommand {
+    command: string;                      // The command with all placeholders substituted
+    values: { [name: string]: string };   // The answers given for prompted variables
+}
+
+export interface ResolveOptions {
+    workspaceFolder?: vscode.WorkspaceFolder; // Folder used for ${workspaceFolder}, defaults to the active one
+}
+
+/**
+ * Finds every unescaped placeholder in a command string.
+ *
+ * Supported forms:
+ * - `${name}`                 prompt for a value
+ * - `${name:default}`         prompt, pre-filled with a default
+ * - `${name|one,two,three}`   pick from a list
+ * - `${workspaceFolder}`, `${file}`, `${selectedText}`, ... built-ins
+ * - `${env:NAME}`, `${config:section.key}` prefixed built-ins
+ *
+ * Anything else in braces is shell or script code and left alone: environment variables in capitals
+ * like `${HOME}`, expansions like `${name:-default}` or `${#array[@]}`, and template literals like `${a + b}`.
+ * `\${...}` is left alone too (minus the backslash), for the rare case that a name matches one of the forms above.
+ */
+export function parsePlaceholders(command: string): Placeholder[] {
+    const placeholders: Placeholder[] = [];
+    for (const match of command.matchAll(PLACEHOLDER_PATTERN)) {
+        if (match[1]) { continue; } // Escaped
+        const raw = match[0];
+        const body = match[2];
+        const offset = match.index!;
+
+        const choiceIndex = body.indexOf('|');
+        const colonIndex = body.indexOf(':');
+        if (choiceIndex > 0 && (colonIndex < 0 || choiceIndex < colonIndex)) {
+            const choices = body.substring(choiceIndex + 1).split(',').map(c => c.trim()).filter(c => c !== '');
+            const name = body.substring(0, choiceIndex).trim();
+            if (isPromptedName(name)) {
+                placeholders.push({ raw, offset, name, choices, builtin: false });
+            }
+        } else if (colonIndex > 0) {
+            const name = body.substring(0, colonIndex).trim();
+            const rest = body.substring(colonIndex + 1);
+            if (name in BUILTIN_PREFIXES) {
+                placeholders.push({ raw, offset, name, argument: rest.trim(), builtin: true });
+            } else if (isPromptedName(name) && !SHELL_EXPANSION_PATTERN.test(rest)) {
+                placeholders.push({ raw, offset, name, defaultValue: rest, builtin: false });
+            }
+        } else {
+            const name = body.trim();
+            if (name in BUILTIN_VARIABLES) {
+                placeholders.push({ raw, offset, name, builtin: true });
+            } else if (isPromptedName(name)) {
+                placeholders.push({ raw, offset, name, builtin: false });
+            }
+        }
+    }
+    return placeholders;
+}
+
+/**
+ * Replaces every unescaped placeholder with the text returned by `replace`,
+ * and drops the backslash of escaped ones. Braces that aren't placeholders are kept as they are.
+ */
+export function replacePlaceholders(command: string, replace: (placeholder: Placeholder) => string): string {
+    return command.replace(PLACEHOLDER_PATTERN, (raw: string, escape: string) => {
+        if (escape) { return raw.substring(1); } // Drop the backslash, keep the literal text
+        const [placeholder] = parsePlaceholders(raw);
+        return placeholder ? replace(placeholder) : raw;
+    });
+}
+
+/**
+ * Whether a placeholder name can be used for a prompted variable.
+ */
+export function isValidVariableName(name: string): boolean {
+    return VARIABLE_NAME_PATTERN.test(name);
+}
+
+// Whether `${name}` asks for a value, rather than being shell or script code
+function isPromptedName(name: string): boolean {
+    return isValidVariableName(name) && !SHELL_VARIABLE_PATTERN.test(name);
+}
+
+/**
+ * Substitutes placeholders in a command, prompting the user for variables.
+ * Answers are remembered per workspace and offered again next time.
+ */
+export class PlaceholderResolver {
+    private _memento: vscode.Memento;
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+    }
+
+    /**
+     * Resolves all placeholders in `command`.
+     * @returns The resolved command, or `undefined` if the user cancelled a prompt.
+     * @throws Error when a built-in cannot be resolved (e.g. `${file}` without an open editor).
+     */
+    async resolve(command: string, options: ResolveOptions = {}): Promise<ResolvedCommand | undefined> {
+        const placeholders = parsePlaceholders(command);
+        const values: { [name: string]: string } = {};
+        const lastValues: { [name: string]: string } = this._memento.get(LAST_VALUES_KEY, {});
+
+        // Prompt once per variable, in order of first appearance
+        for (const placeholder of placeholders) {
+            if (placeholder.builtin || placeholder.name in values) { continue; }
+            const value = await this.promptForValue(placeholder, lastValues[placeholder.name]);
+            if (value === undefined) { return undefined; } // User cancelled
+            values[placeholder.name] = value;
+        }
+
+        if (Object.keys(values).length > 0) {
+            await this._memento.update(LAST_VALUES_KEY, { ...lastValues, ...values });
+        }
+
+        const resolved = replacePlaceholders(command, placeholder => placeholder.builtin
+            ? this.resolveBuiltin(placeholder, options)
+            : values[placeholder.name]);
+
+        return { command: resolved, values };
+    }
+
+    private async promptForValue(placeholder: Placeholder, lastValue: string | undefined): Promise<string | undefined> {
+        if (placeholder.choices && placeholder.choices.length > 0) {
+            // Offer the remembered choice first
+            const choices = [...placeholder.choices];
+            if (lastValue !== undefined && choices.includes(lastValue)) {
+                choices.splice(choices.indexOf(lastValue), 1);
+                choices.unshift(lastValue);
+            }
+            return vscode.window.showQuickPick(choices, {
+                title: `Value for "${placeholder.name}"`,
+                placeHolder: `Select a value for \${${placeholder.name}}`
+            });
+        }
+
+        return vscode.window.showInputBox({
+            title: `Value for "${placeholder.name}"`,
+            prompt: `Enter a value for \${${placeholder.name}}`,
+            value: lastValue ?? placeholder.defaultValue ?? '',
+            placeHolder: placeholder.defaultValue
+        });
+    }
+
+    private resolveBuiltin(placeholder: Placeholder, options: ResolveOptions): string {
+        const editor = vscode.window.activeTextEditor;
+        const requireEditor = (): vscode.TextEditor => {
+            if (!editor) {
+                throw new Error(`Cannot resolve "${placeholder.raw}": no editor is active.`);
+            }
+            return editor;
+        };
+        const requireFolder = (): vscode.WorkspaceFolder => {
+            const folder = options.workspaceFolder
+                ?? (editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined)
+                ?? vscode.workspace.workspaceFolders?.[0];
+            if (!folder) {
+                throw new Error(`Cannot resolve "${placeholder.raw}": no workspace folder is open.`);
+            }
+            return folder;
+        };
+
+        switch (placeholder.name) {
+            case 'env':
+                return process.env[placeholder.argument || ''] ?? '';
+            case 'config': {
+                const value = vscode.workspace.getConfiguration().get(placeholder.argument || '');
+                return value === undefined || value === null ? '' : String(value);
+            }
+            case 'workspaceFolder':
+                return requireFolder().uri.fsPath;
+            case 'workspaceFolderBasename':
+                return requireFolder().name;
+            case 'file':
+                return requireEditor().document.uri.fsPath;
+            case 'fileBasename':
+                return path.basename(requireEditor().document.uri.fsPath);
+            case 'fileBasenameNoExtension': {
+                const fsPath = requireEditor().document.uri.fsPath;
+                return path.basename(fsPath, path.extname(fsPath));
+            }
+            case 'fileDirname':
+                return path.dirname(requireEditor().document.uri.fsPath);
+            case 'fileExtname':
+                return path.extname(requireEditor().document.uri.fsPath);
+            case 'relativeFile':
+                return path.relative(requireFolder().uri.fsPath, requireEditor().document.uri.fsPath);
+            case 'selectedText': {
+                const activeEditor = requireEditor();
+                return activeEditor.document.getText(activeEditor.selection);
+            }
+            case 'lineNumber':
+                return String(requireEditor().selection.active.line + 1);
+            case 'pathSeparator':
+                return path.sep;
+            default:
+                throw new Error(`Unknown placeholder "${placeholder.raw}".`);
+        }
+    }
+}
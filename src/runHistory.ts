@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { RunMode } from './extension';
+
+const HISTORY_KEY = 'runHistory'; // globalState key
+const MAX_HISTORY_ENTRIES = 50;
+export const MAX_STORED_OUTPUT = 64 * 1024; // Characters of output kept per run
+
+/**
+ * One past run of a command.
+ */
+export interface RunHistoryEntry {
+    id: string;                          // Unique per run
+    commandId?: string;                  // The saved command that was run, if any
+    scopeId?: string;                    // Scope of that command
+    label: string;                       // Display name at the time of the run
+    command: string;                     // The command as executed, with placeholders resolved
+    values: { [name: string]: string };  // Answers given for placeholders
+    cwd?: string;                        // Working directory, if known
+    env?: { [name: string]: string };    // Extra environment variables
+    shell?: string;                      // Shell executable, if not the default
+    shellArgs?: string[];
+    interpreter?: string;                // Program the command ran with as a script file, if any
+    mode: RunMode;
+    startedAt: number;                   // Milliseconds since the epoch
+    duration?: number;                   // Milliseconds, only known for background runs
+    exitCode?: number;                   // Only known for background runs
+    output?: string;                     // Captured output of background runs (truncated)
+}
+
+/**
+ * Persists the most recent runs in global state.
+ */
+export class RunHistory {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _memento: vscode.Memento;
+
+    constructor(memento: vscode.Memento) {
+        this._memento = memento;
+    }
+
+    getEntries(): RunHistoryEntry[] {
+        return this._memento.get(HISTORY_KEY, []);
+    }
+
+    getEntry(id: string): RunHistoryEntry | undefined {
+        return this.getEntries().find(entry => entry.id === id);
+    }
+
+    // Adds a new run at the top, or replaces an entry with the same ID (e.g., once a run finishes)
+    async record(entry: RunHistoryEntry): Promise<void> {
+        const stored: RunHistoryEntry = entry.output !== undefined && entry.output.length > MAX_STORED_OUTPUT
+            ? { ...entry, output: entry.output.substring(entry.output.length - MAX_STORED_OUTPUT) }
+            : entry;
+        const entries = this.getEntries().filter(existing => existing.id !== entry.id);
+        entries.unshift(stored);
+        entries.sort((a, b) => b.startedAt - a.startedAt);
+        await this._memento.update(HISTORY_KEY, entries.slice(0, MAX_HISTORY_ENTRIES));
+        this._onDidChange.fire();
+    }
+
+    async clear(): Promise<void> {
+        await this._memento.update(HISTORY_KEY, []);
+        this._onDidChange.fire();
+    }
+}
+
+/**
+ * Represents a past run in the 'commandsViewerHistory' Tree View.
+ * Clicking it shows the captured output.
+ */
+export class RunHistoryNode extends vscode.TreeItem {
+    constructor(public readonly entry: RunHistoryEntry) {
+        super(entry.label, vscode.TreeItemCollapsibleState.None);
+        this.id = entry.id;
+        this.description = `${describeStatus(entry)} · ${new Date(entry.startedAt).toLocaleString()}`;
+        this.iconPath = entry.exitCode === undefined
+            ? new vscode.ThemeIcon('terminal')
+            : entry.exitCode === 0
+                ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+                : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendCodeblock(entry.command, 'shellscript');
+        const values = Object.entries(entry.values);
+        if (values.length > 0) {
+            tooltip.appendMarkdown(`**Arguments:** ${values.map(([name, value]) => `\`${name}\` = \`${value}\``).join(', ')}\n\n`);
+        }
+        if (entry.cwd) {
+            tooltip.appendMarkdown(`**Working directory:** \`${entry.cwd}\`\n\n`);
+        }
+        if (entry.env && Object.keys(entry.env).length > 0) {
+            tooltip.appendMarkdown(`**Environment:** ${Object.keys(entry.env).map(name => `\`${name}\``).join(', ')}\n\n`);
+        }
+        if (entry.shell) {
+            tooltip.appendMarkdown(`**Shell:** \`${[entry.shell, ...(entry.shellArgs ?? [])].join(' ')}\`\n\n`);
+        }
+        if (entry.interpreter) {
+            tooltip.appendMarkdown(`**Interpreter:** \`${entry.interpreter}\`\n\n`);
+        }
+        tooltip.appendMarkdown(`**Status:** ${describeStatus(entry)}`);
+        this.tooltip = tooltip;
+        this.contextValue = 'runHistoryItem';
+
+        this.command = {
+            command: 'commandsViewer.showRunOutput',
+            title: 'Show Output',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Provides data to the 'commandsViewerHistory' Tree View.
+ */
+export class RunHistoryProvider implements vscode.TreeDataProvider<RunHistoryNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<RunHistoryNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<RunHistoryNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private _history: RunHistory;
+
+    constructor(history: RunHistory) {
+        this._history = history;
+        this._history.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    getTreeItem(element: RunHistoryNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: RunHistoryNode): RunHistoryNode[] {
+        if (element) {
+            return [];
+        }
+        return this._history.getEntries().map(entry => new RunHistoryNode(entry));
+    }
+
+    // Opens the captured output (or the command, for terminal runs) in a read-only style document
+    async showOutput(node: RunHistoryNode): Promise<void> {
+        const entry = node.entry;
+        const header = [
+            `$ ${entry.command}`,
+            ...(entry.cwd ? [`# cwd: ${entry.cwd}`] : []),
+            `# ${describeStatus(entry)}, started ${new Date(entry.startedAt).toLocaleString()}`,
+            ''
+        ].join('\n');
+        const body = entry.output ?? '(Output is only captured for commands run in the background.)';
+        const document = await vscode.workspace.openTextDocument({ content: `${header}\n${body}`, language: 'log' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    async clearHistory(): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            'Are you sure you want to clear the run history?',
+            { modal: true },
+            'Yes'
+        );
+        if (confirmation === 'Yes') {
+            await this._history.clear();
+        }
+    }
+}
+
+// Short human-readable status, e.g. "exit 0 in 1.2s" or "sent to terminal"
+export function describeStatus(entry: { mode: RunMode; exitCode?: number; duration?: number }): string {
+    if (entry.exitCode === undefined) {
+        return entry.mode === 'background' ? 'running' : 'sent to terminal';
+    }
+    return `exit ${entry.exitCode} in ${formatDuration(entry.duration ?? 0)}`;
+}
+
+export function formatDuration(milliseconds: number): string {
+    if (milliseconds < 1000) {
+        return `${milliseconds}ms`;
+    }
+    const seconds = milliseconds / 1000;
+    if (seconds < 60) {
+        return `${seconds.toFixed(1)}s`;
+    }
+    return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
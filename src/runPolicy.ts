@@ -0,0 +1,50 @@
+import { CommandItem } from './extension';
+import { DANGEROUS_PATTERNS } from './commandLint';
+
+/**
+ * When to ask before running a command:
+ * - always: every run
+ * - never: no run, unless the command requires it
+ * - dangerous: only runs matching a dangerous pattern
+ */
+export type ConfirmationPolicy = 'always' | 'never' | 'dangerous';
+
+/**
+ * Finds the first dangerous part of a command, either a destructive command the editor warns about
+ * (e.g. `rm -rf /`) or a match of one of the user's patterns. Patterns are case-insensitive regular
+ * expressions; invalid ones are skipped.
+ * @returns The matched text, or `undefined` if the command looks harmless.
+ */
+export function findDangerousMatch(command: string, patterns: string[]): string | undefined {
+    for (const { pattern } of DANGEROUS_PATTERNS) {
+        const match = pattern.exec(command);
+        if (match) {
+            return match[0];
+        }
+    }
+    for (const source of patterns) {
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(source, 'i');
+        } catch {
+            console.warn(`Ignoring invalid pattern in "commandsViewer.dangerousPatterns": ${source}`);
+            continue;
+        }
+        const match = pattern.exec(command);
+        if (match) {
+            return match[0];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Decides whether to ask before running. The command's own `requiresConfirmation` wins over the policy.
+ * @param dangerousMatch The result of `findDangerousMatch` for the resolved command.
+ */
+export function needsConfirmation(item: Pick<CommandItem, 'requiresConfirmation'>, policy: ConfirmationPolicy, dangerousMatch: string | undefined): boolean {
+    if (item.requiresConfirmation !== undefined) {
+        return item.requiresConfirmation;
+    }
+    return policy === 'always' || (policy === 'dangerous' && dangerousMatch !== undefined);
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { NewCommandItem } from './extension';
+
+/**
+ * The per-command settings that control how a command is started.
+ */
+export type RunSettings = Pick<NewCommandItem, 'cwd' | 'env' | 'shell' | 'shellArgs'>;
+
+const KNOWN_SHELLS = ['bash', 'zsh', 'sh', 'pwsh'];
+
+interface MenuItem extends vscode.QuickPickItem {
+    action: 'cwd' | 'env' | 'shell' | 'shellArgs' | 'save';
+}
+
+/**
+ * Lets the user edit a command's working directory, environment and shell in a quick pick menu.
+ * @returns The new settings, or `undefined` if the user cancelled.
+ */
+export async function editRunSettings(item: NewCommandItem): Promise<RunSettings | undefined> {
+    const settings: RunSettings = { cwd: item.cwd, env: item.env, shell: item.shell, shellArgs: item.shellArgs };
+    const title = `Configure "${item.name || item.command}"`;
+
+    while (true) {
+        const envCount = Object.keys(settings.env ?? {}).length;
+        const choice = await vscode.window.showQuickPick<MenuItem>([
+            { label: '$(folder) Working Directory', description: settings.cwd || 'Workspace folder', action: 'cwd' },
+            { label: '$(symbol-variable) Environment Variables', description: envCount > 0 ? `${envCount} set` : 'None', action: 'env' },
+            { label: '$(terminal) Shell', description: settings.shell || 'Default shell', action: 'shell' },
+            { label: '$(list-flat) Shell Arguments', description: settings.shellArgs?.join(' ') || 'None', action: 'shellArgs' },
+            { label: '', kind: vscode.QuickPickItemKind.Separator, action: 'save' },
+            { label: '$(check) Save', action: 'save' }
+        ], { title, placeHolder: 'Select a setting to change' });
+
+        if (!choice) { return undefined; } // Cancelled
+        switch (choice.action) {
+            case 'cwd': {
+                const cwd = await vscode.window.showInputBox({
+                    title,
+                    prompt: 'Working directory: an absolute path or a path relative to the workspace folder. Leave empty for the workspace folder.',
+                    value: settings.cwd ?? ''
+                });
+                if (cwd !== undefined) {
+                    settings.cwd = cwd.trim() || undefined;
+                }
+                break;
+            }
+            case 'env':
+                settings.env = await editEnvironment(title, settings.env ?? {});
+                break;
+            case 'shell': {
+                const shell = await pickShell(title, settings.shell);
+                if (shell !== undefined) {
+                    settings.shell = shell || undefined;
+                }
+                break;
+            }
+            case 'shellArgs': {
+                const args = await vscode.window.showInputBox({
+                    title,
+                    prompt: 'Arguments passed to the shell, separated by spaces (e.g., "-l" for a login shell). Only used together with a shell.',
+                    value: settings.shellArgs ? formatArguments(settings.shellArgs) : ''
+                });
+                if (args !== undefined) {
+                    const parsed = parseArguments(args);
+                    settings.shellArgs = parsed.length > 0 ? parsed : undefined;
+                }
+                break;
+            }
+            case 'save':
+                return settings;
+        }
+    }
+}
+
+// Edits environment variables one at a time until the user goes back
+async function editEnvironment(title: string, initial: { [name: string]: string }): Promise<{ [name: string]: string } | undefined> {
+    const env = { ...initial };
+    while (true) {
+        const items: (vscode.QuickPickItem & { name?: string })[] = [
+            ...Object.entries(env).map(([name, value]) => ({ label: name, description: value, name })),
+            { label: '$(add) Add Variable...' },
+            { label: '$(arrow-left) Back' }
+        ];
+        const choice = await vscode.window.showQuickPick(items, { title, placeHolder: 'Select a variable to change it, or add a new one' });
+        if (!choice || choice.label === '$(arrow-left) Back') {
+            break;
+        }
+
+        if (choice.name !== undefined) {
+            const value = await vscode.window.showInputBox({
+                title,
+                prompt: `Value of ${choice.name}. Leave empty to remove the variable.`,
+                value: env[choice.name]
+            });
+            if (value === '') {
+                delete env[choice.name];
+            } else if (value !== undefined) {
+                env[choice.name] = value;
+            }
+        } else {
+            const assignment = await vscode.window.showInputBox({
+                title,
+                prompt: 'Enter a variable as NAME=value',
+                placeHolder: 'AWS_PROFILE=staging',
+                validateInput: value => /^[A-Za-z_][A-Za-z0-9_]*=/.test(value) ? undefined : 'Expected NAME=value'
+            });
+            if (assignment !== undefined) {
+                const index = assignment.indexOf('=');
+                env[assignment.substring(0, index)] = assignment.substring(index + 1);
+            }
+        }
+    }
+    return Object.keys(env).length > 0 ? env : undefined;
+}
+
+// Returns the chosen shell, '' for the default shell, or undefined if cancelled
+async function pickShell(title: string, current: string | undefined): Promise<string | undefined> {
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'Default Shell', description: current ? undefined : '(current)', value: '' },
+            ...KNOWN_SHELLS.map(shell => ({ label: shell, description: shell === current ? '(current)' : undefined, value: shell })),
+            { label: 'Other...', description: current && !KNOWN_SHELLS.includes(current) ? current : undefined, value: undefined }
+        ],
+        { title, placeHolder: 'Select the shell to run the command with' }
+    );
+    if (!choice) { return undefined; }
+    if (choice.value !== undefined) { return choice.value; }
+
+    return vscode.window.showInputBox({
+        title,
+        prompt: 'Name or path of the shell executable',
+        value: current ?? ''
+    });
+}
+
+/**
+ * Resolves a command's working directory: absolute paths are used as-is, "~" expands to
+ * the home directory, and relative paths are taken from the workspace folder.
+ */
+export function resolveWorkingDirectory(cwd: string | undefined, workspaceFolder: vscode.WorkspaceFolder | undefined): string | undefined {
+    const base = workspaceFolder?.uri.fsPath;
+    if (!cwd) {
+        return base;
+    }
+    if (cwd === '~' || cwd.startsWith('~/')) {
+        return path.join(os.homedir(), cwd.substring(1));
+    }
+    if (path.isAbsolute(cwd)) {
+        return cwd;
+    }
+    return path.resolve(base ?? os.homedir(), cwd);
+}
+
+// Splits "a 'b c' d" into ["a", "b c", "d"]
+export function parseArguments(text: string): string[] {
+    return (text.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(arg => /^(["']).*\1$/.test(arg) ? arg.slice(1, -1) : arg);
+}
+
+export function formatArguments(args: string[]): string {
+    return args.map(arg => /\s/.test(arg) ? `"${arg}"` : arg).join(' ');
+}
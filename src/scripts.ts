@@ -0,0 +1,130 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandItem, CommandPlatform, PlatformVariant } from './extension';
+import { parseArguments } from './runSettings';
+
+export const PLATFORMS: CommandPlatform[] = ['linux', 'darwin', 'win32'];
+
+export const PLATFORM_LABELS: { [platform in CommandPlatform]: string } = {
+    linux: 'Linux',
+    darwin: 'macOS',
+    win32: 'Windows'
+};
+
+const SCRIPT_DIRECTORY = path.join(os.tmpdir(), 'commands-viewer');
+
+/**
+ * Picks what a command runs on an operating system: its variant for that platform,
+ * or else its own command and interpreter.
+ * @returns `undefined` if the command only has variants for other platforms.
+ */
+export function selectVariant(item: Pick<CommandItem, 'command' | 'interpreter' | 'platforms'>, platform: string = process.platform): PlatformVariant | undefined {
+    const variant = item.platforms?.[platform as CommandPlatform];
+    if (variant) {
+        return variant;
+    }
+    return item.command.trim() !== '' ? { command: item.command, interpreter: item.interpreter } : undefined;
+}
+
+// "Linux" for "linux", or the platform itself if it isn't one commands can have variants for
+export function getPlatformLabel(platform: string = process.platform): string {
+    return PLATFORM_LABELS[platform as CommandPlatform] ?? platform;
+}
+
+/**
+ * The lowercase name of an executable without its directory or ".exe", e.g. "pwsh" for "C:\...\pwsh.exe".
+ */
+export function getExecutableName(executable: string): string {
+    return executable.replace(/\\/g, '/').split('/').pop()!.toLowerCase().replace(/\.exe$/, '');
+}
+
+// Whether scripts for the interpreter are written in a shell language, as commands without one are
+export function usesShellSyntax(interpreter: string | undefined): boolean {
+    const [executable] = parseArguments(interpreter ?? '');
+    return executable === undefined || ['sh', 'bash', 'zsh', 'dash', 'ksh'].includes(getExecutableName(executable));
+}
+
+/**
+ * Writes a script to a new file in the temp directory, with the extension its interpreter expects.
+ * @returns The path of the file.
+ */
+export async function writeScriptFile(script: string, interpreter: string): Promise<string> {
+    const [executable] = parseArguments(interpreter);
+    const extension = getScriptExtension(getExecutableName(executable ?? ''));
+    const content = script.endsWith('\n') ? script : `${script}\n`;
+    await fs.promises.mkdir(SCRIPT_DIRECTORY, { recursive: true });
+    const file = path.join(SCRIPT_DIRECTORY, `${crypto.randomUUID()}${extension}`);
+    // cmd.exe misreads labels and `goto` in files without Windows line endings
+    await fs.promises.writeFile(file, extension === '.cmd' ? content.replace(/\r?\n/g, '\r\n') : content, { mode: 0o600 });
+    return file;
+}
+
+/**
+ * The program and arguments that run a script file with an interpreter, e.g. ["pwsh", "-File", file].
+ * The interpreter can include arguments of its own, like "python3 -u".
+ */
+export function getScriptCommandLine(interpreter: string, file: string): string[] {
+    const [executable, ...args] = parseArguments(interpreter);
+    switch (getExecutableName(executable)) {
+        case 'pwsh':
+        case 'powershell':
+            return [executable, ...args, '-File', file];
+        case 'cmd':
+            return [executable, ...args, '/c', file];
+        default:
+            return [executable, ...args, file];
+    }
+}
+
+/**
+ * Joins a command line for a terminal running the given shell, quoting where needed.
+ * @param shell The terminal's shell executable; POSIX quoting is used if it is unknown.
+ */
+export function formatCommandLine(commandLine: string[], shell: string | undefined): string {
+    const safe = /^[\w@%+=:,./\\-]+$/;
+    switch (getExecutableName(shell ?? '')) {
+        case 'pwsh':
+        case 'powershell':
+            // A quoted first word is a string to PowerShell, so call it with `&`
+            return `& ${commandLine.map(arg => safe.test(arg) ? arg : `'${arg.replace(/'/g, "''")}'`).join(' ')}`;
+        case 'cmd':
+            return commandLine.map(arg => safe.test(arg) ? arg : `"${arg}"`).join(' ');
+        default:
+            return commandLine.map(arg => safe.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`).join(' ');
+    }
+}
+
+export async function deleteScriptFile(file: string): Promise<void> {
+    try {
+        await fs.promises.unlink(file);
+    } catch {
+        // Already gone, e.g. removed by the script itself
+    }
+}
+
+// Interpreters that insist on an extension, or use it to tell scripts from modules
+function getScriptExtension(executable: string): string {
+    if (/^python[\d.]*$|^py$/.test(executable)) { return '.py'; }
+    switch (executable) {
+        case 'pwsh':
+        case 'powershell':
+            return '.ps1';
+        case 'cmd':
+            return '.cmd';
+        case 'node':
+            return '.js';
+        case 'ruby':
+            return '.rb';
+        case 'perl':
+            return '.pl';
+        case 'bash':
+        case 'sh':
+        case 'zsh':
+        case 'fish':
+            return '.sh';
+        default:
+            return '';
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { SequenceStep } from './extension';
+import { CommandRunner, RunRequest } from './commandRunner';
+import { formatDuration } from './runHistory';
+
+export type StepStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+/**
+ * Progress of one step in the current or last run of a sequence.
+ */
+export interface StepProgress {
+    status: StepStatus;
+    exitCode?: number;
+    reason?: string; // Why a step failed without running, e.g. "already running"
+}
+
+/**
+ * A step that is ready to run: its command is resolved, placeholders included.
+ */
+export interface PreparedStep {
+    step: SequenceStep;
+    request: RunRequest;
+}
+
+/**
+ * Runs sequences step by step as background processes, so every step's exit code is known.
+ * Consecutive steps marked `parallel` start together with the step before them.
+ */
+export class SequenceRunner implements vscode.Disposable {
+    private _onDidChangeProgress = new vscode.EventEmitter<string>(); // Fires the sequence ID
+    readonly onDidChangeProgress: vscode.Event<string> = this._onDidChangeProgress.event;
+
+    private _runner: CommandRunner;
+    // Key: sequence ID, Value: progress per step, in step order
+    private _progress: Map<string, StepProgress[]> = new Map<string, StepProgress[]>();
+    private _running: Set<string> = new Set<string>();
+
+    constructor(runner: CommandRunner) {
+        this._runner = runner;
+    }
+
+    getProgress(sequenceId: string): StepProgress[] | undefined {
+        return this._progress.get(sequenceId);
+    }
+
+    isRunning(sequenceId: string): boolean {
+        return this._running.has(sequenceId);
+    }
+
+    /**
+     * Runs the prepared steps of a sequence.
+     * @returns Whether every step that ran succeeded (or was allowed to fail).
+     */
+    async run(sequenceId: string, label: string, steps: PreparedStep[]): Promise<boolean> {
+        if (this._running.has(sequenceId)) {
+            vscode.window.showWarningMessage(`"${label}" is already running.`);
+            return false;
+        }
+
+        const progress: StepProgress[] = steps.map(() => ({ status: 'pending' }));
+        this._progress.set(sequenceId, progress);
+        this._running.add(sequenceId);
+        this._onDidChangeProgress.fire(sequenceId);
+        const startedAt = Date.now();
+
+        let stopped = false;
+        let failures = 0;
+        try {
+            for (const group of groupSteps(steps.map(prepared => prepared.step))) {
+                if (stopped) {
+                    group.forEach(index => progress[index].status = 'skipped');
+                    continue;
+                }
+
+                const results = await Promise.all(group.map(async index => {
+                    // A command runs once at a time, e.g. not while it also runs outside the sequence
+                    if (this._runner.isRunning(steps[index].request)) {
+                        progress[index] = { status: 'failed', reason: 'already running' };
+                        this._onDidChangeProgress.fire(sequenceId);
+                        return { index, passed: false };
+                    }
+                    progress[index] = { status: 'running' };
+                    this._onDidChangeProgress.fire(sequenceId);
+                    const exitCode = await this._runner.execute(steps[index].request);
+                    progress[index] = exitCode === undefined
+                        ? { status: 'failed', reason: 'could not start' }
+                        : { status: exitCode === 0 ? 'passed' : 'failed', exitCode };
+                    this._onDidChangeProgress.fire(sequenceId);
+                    return { index, passed: exitCode === 0 };
+                }));
+
+                for (const result of results) {
+                    if (!result.passed) {
+                        failures++;
+                        if (!steps[result.index].step.continueOnError) {
+                            stopped = true;
+                        }
+                    }
+                }
+            }
+        } finally {
+            this._running.delete(sequenceId);
+            this._onDidChangeProgress.fire(sequenceId);
+        }
+
+        const duration = formatDuration(Date.now() - startedAt);
+        if (stopped) {
+            vscode.window.showErrorMessage(`"${label}" stopped after a failed step (${duration}).`, 'Show Output')
+                .then(choice => choice && this._runner.showOutput());
+        } else if (failures > 0) {
+            vscode.window.showWarningMessage(`"${label}" finished in ${duration} with ${failures} failed step(s).`, 'Show Output')
+                .then(choice => choice && this._runner.showOutput());
+        } else {
+            vscode.window.showInformationMessage(`"${label}" finished in ${duration}.`);
+        }
+        return !stopped;
+    }
+
+    // Stops the steps of a sequence that are currently running; the sequence then stops as if they failed
+    stop(sequenceId: string, steps: SequenceStep[]): void {
+        const progress = this._progress.get(sequenceId) ?? [];
+        steps.forEach((step, index) => {
+            if (progress[index]?.status === 'running') {
+                this._runner.stop(step.commandId);
+            }
+        });
+    }
+
+    dispose(): void {
+        this._onDidChangeProgress.dispose();
+    }
+}
+
+/**
+ * Finds a step that runs the same command as another step it runs in parallel with.
+ * Such a step can't start, since a command runs once at a time.
+ * @returns The index of that step, or `undefined` if there is none.
+ */
+export function findParallelDuplicate(steps: SequenceStep[]): number | undefined {
+    for (const group of groupSteps(steps)) {
+        const duplicate = group.find((index, position) => group.slice(0, position).some(other => steps[other].commandId === steps[index].commandId));
+        if (duplicate !== undefined) {
+            return duplicate;
+        }
+    }
+    return undefined;
+}
+
+// Splits step indexes into groups that run together: a step marked `parallel` joins the previous group
+function groupSteps(steps: SequenceStep[]): number[][] {
+    const groups: number[][] = [];
+    steps.forEach((step, index) => {
+        if (step.parallel && groups.length > 0) {
+            groups[groups.length - 1].push(index);
+        } else {
+            groups.push([index]);
+        }
+    });
+    return groups;
+}
@@ -0,0 +1,354 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CommandFileSystemProvider, toUri, USER_SCOPE } from '../commandFs';
+import { createContext, fileSystemError, InMemoryMemento } from './fakes';
+
+const text = (value: string) => Buffer.from(value, 'utf8');
+const read = async (provider: CommandFileSystemProvider, uri: vscode.Uri) => Buffer.from(await provider.readFile(uri)).toString('utf8');
+
+suite('CommandFileSystemProvider', () => {
+    let globalState: InMemoryMemento;
+    let provider: CommandFileSystemProvider;
+
+    setup(() => {
+        globalState = new InMemoryMemento();
+        provider = new CommandFileSystemProvider(createContext(globalState));
+    });
+
+    teardown(() => provider.dispose());
+
+    suite('writeFile', () => {
+        test('names a new command after its filename', async () => {
+            await provider.writeFile(toUri('Build.cmd'), text('npm run build'), { create: true, overwrite: false });
+
+            const [item] = provider.getAllCommandItems();
+            assert.strictEqual(item.name, 'Build');
+            assert.strictEqual(item.command, 'npm run build');
+            assert.strictEqual(item.folder, undefined);
+        });
+
+        test('prefers the name from the front matter', async () => {
+            await provider.writeFile(toUri('Untitled.cmd'), text('---\nname: Deploy\ncwd: app\n---\n./deploy.sh'), { create: true, overwrite: false });
+
+            const [item] = provider.getAllCommandItems();
+            assert.strictEqual(item.name, 'Deploy');
+            assert.strictEqual(item.cwd, 'app');
+            assert.strictEqual(item.command, './deploy.sh');
+        });
+
+        test('keeps the other fields when plain text replaces the command', async () => {
+            const item = await provider.addCommandItem({ name: 'Test', command: 'npm test', cwd: 'app', tags: ['ci'] });
+            await provider.writeFile(provider.getCommandUri(item.id)!, text('npm test -- --watch'), { create: false, overwrite: true });
+
+            const updated = provider.getCommandById(item.id)!;
+            assert.strictEqual(updated.command, 'npm test -- --watch');
+            assert.strictEqual(updated.cwd, 'app');
+            assert.deepStrictEqual(updated.tags, ['ci']);
+        });
+
+        test('clears fields removed from the front matter', async () => {
+            const item = await provider.addCommandItem({ name: 'Test', command: 'npm test', cwd: 'app' });
+            await provider.writeFile(provider.getCommandUri(item.id)!, text('---\nname: Test\n---\nnpm test'), { create: false, overwrite: true });
+
+            assert.strictEqual(provider.getCommandById(item.id)!.cwd, undefined);
+        });
+
+        test('serves the command as a document', async () => {
+            const item = await provider.addCommandItem({ name: 'Logs', command: 'kubectl logs ${pod}', env: { KUBECONFIG: 'dev.yaml' } });
+
+            const content = await read(provider, provider.getCommandUri(item.id)!);
+            assert.strictEqual(content, '---\nname: Logs\ndescription:\ntags:\ncwd:\nenv:\n  KUBECONFIG: dev.yaml\n---\nkubectl logs ${pod}\n');
+        });
+
+        test('fails for an existing file without overwrite', async () => {
+            await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await assert.rejects(
+                provider.writeFile(toUri('Build.cmd'), text('make all'), { create: true, overwrite: false }),
+                fileSystemError('FileExists')
+            );
+        });
+
+        test('fails for a missing file without create', async () => {
+            await assert.rejects(
+                provider.writeFile(toUri('Missing.cmd'), text('ls'), { create: false, overwrite: true }),
+                fileSystemError('FileNotFound')
+            );
+        });
+
+        test('fails in a missing folder and on a folder', async () => {
+            await provider.createDirectory(toUri('Tools'));
+            await assert.rejects(
+                provider.writeFile(toUri('Nope/Build.cmd'), text('make'), { create: true, overwrite: false }),
+                fileSystemError('FileNotFound')
+            );
+            await assert.rejects(
+                provider.writeFile(toUri('Tools'), text('make'), { create: true, overwrite: false }),
+                fileSystemError('FileIsADirectory')
+            );
+        });
+
+        test('rejects an empty command', async () => {
+            await assert.rejects(provider.writeFile(toUri('Empty.cmd'), text('---\nname: Empty\n---\n'), { create: true, overwrite: false }), /The command is empty/);
+            assert.strictEqual(provider.getAllCommandItems().length, 0);
+        });
+
+        test('reads scripts and platform variants', async () => {
+            const document = '---\nname: Setup\ninterpreter: bash\n---\nset -e\n./install.sh\n--- win32: pwsh ---\n.\\install.ps1\n--- darwin ---\nbrew bundle\n';
+            await provider.writeFile(toUri('Setup.cmd'), text(document), { create: true, overwrite: false });
+
+            const [item] = provider.getAllCommandItems();
+            assert.strictEqual(item.command, 'set -e\n./install.sh');
+            assert.strictEqual(item.interpreter, 'bash');
+            assert.deepStrictEqual(item.platforms, { win32: { command: '.\\install.ps1', interpreter: 'pwsh' }, darwin: { command: 'brew bundle' } });
+            // Served with the variants in a fixed order
+            assert.strictEqual(
+                await read(provider, provider.getCommandUri(item.id)!),
+                '---\nname: Setup\ndescription:\ntags:\ncwd:\ninterpreter: bash\nenv:\n---\nset -e\n./install.sh\n--- darwin ---\nbrew bundle\n--- win32: pwsh ---\n.\\install.ps1\n'
+            );
+        });
+
+        test('accepts variants without a command, but not empty variants', async () => {
+            await provider.writeFile(toUri('Open.cmd'), text('---\nname: Open\n---\n--- darwin ---\nopen .\n'), { create: true, overwrite: false });
+            assert.deepStrictEqual(provider.getAllCommandItems()[0].platforms, { darwin: { command: 'open .' } });
+
+            await assert.rejects(provider.writeFile(toUri('Bad.cmd'), text('---\nname: Bad\n---\nls\n--- linux ---\n\n'), { create: true, overwrite: false }), /Line 5: The variant for "linux" is empty/);
+        });
+
+        test('keeps lines that only look like variant headers in the body', async () => {
+            const document = '---\nname: Notes\n---\ncat <<EOF\n--- summary ---\n  --- linux ---\nEOF\n';
+            await provider.writeFile(toUri('Notes.cmd'), text(document), { create: true, overwrite: false });
+
+            const [item] = provider.getAllCommandItems();
+            assert.strictEqual(item.command, 'cat <<EOF\n--- summary ---\n  --- linux ---\nEOF');
+            assert.strictEqual(item.platforms, undefined);
+        });
+    });
+
+    suite('addCommandItem', () => {
+        test('suffixes the filenames of commands with the same name, in creation order', async () => {
+            const first = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            const second = await provider.addCommandItem({ name: 'Build', command: 'make all' });
+            const third = await provider.addCommandItem({ name: 'Build', command: 'make clean' });
+
+            assert.strictEqual(provider.getCommandUri(first.id)!.path, '/Build.cmd');
+            assert.strictEqual(provider.getCommandUri(second.id)!.path, '/Build-1.cmd');
+            assert.strictEqual(provider.getCommandUri(third.id)!.path, '/Build-2.cmd');
+            assert.strictEqual(new Set([first.id, second.id, third.id]).size, 3);
+        });
+
+        test('derives the filename of unnamed commands from the command', async () => {
+            const item = await provider.addCommandItem({ command: 'git status --short' });
+            assert.strictEqual(provider.getCommandUri(item.id)!.path, '/git_status___short.cmd');
+        });
+
+        test('creates missing folders', async () => {
+            await provider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes/Debug' });
+            assert.deepStrictEqual(provider.getAllFolders(), ['Kubernetes', 'Kubernetes/Debug']);
+        });
+
+        test('persists commands with stable IDs', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make', folder: 'Tools' });
+
+            const reloaded = new CommandFileSystemProvider(createContext(globalState));
+            try {
+                assert.deepStrictEqual(reloaded.getCommandById(item.id), item);
+                assert.deepStrictEqual(reloaded.getAllFolders(), ['Tools']);
+            } finally {
+                reloaded.dispose();
+            }
+        });
+    });
+
+    suite('rename', () => {
+        test('uses a new filename as the name, exactly as typed', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.rename(provider.getCommandUri(item.id)!, toUri('Build All.cmd'), { overwrite: false });
+
+            assert.strictEqual(provider.getCommandById(item.id)!.name, 'Build All');
+        });
+
+        test('keeps the name when moving into a folder', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.createDirectory(toUri('Tools'));
+            await provider.rename(provider.getCommandUri(item.id)!, toUri('Tools/Build.cmd'), { overwrite: false });
+
+            const moved = provider.getCommandById(item.id)!;
+            assert.strictEqual(moved.name, 'Build');
+            assert.strictEqual(moved.folder, 'Tools');
+        });
+
+        test('keeps the name of a command whose filename has a suffix', async () => {
+            await provider.addCommandItem({ name: 'Build', command: 'make' });
+            const second = await provider.addCommandItem({ name: 'Build', command: 'make all' });
+            await provider.createDirectory(toUri('Tools'));
+            await provider.rename(provider.getCommandUri(second.id)!, toUri('Tools/Build-1.cmd'), { overwrite: false });
+
+            assert.strictEqual(provider.getCommandById(second.id)!.name, 'Build');
+        });
+
+        test('fails on an existing file unless overwriting, which replaces it', async () => {
+            const build = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            const test = await provider.addCommandItem({ name: 'Test', command: 'make test' });
+
+            await assert.rejects(
+                provider.rename(provider.getCommandUri(test.id)!, toUri('Build.cmd'), { overwrite: false }),
+                fileSystemError('FileExists')
+            );
+            await provider.rename(provider.getCommandUri(test.id)!, toUri('Build.cmd'), { overwrite: true });
+            assert.strictEqual(provider.getCommandById(build.id), undefined);
+            assert.strictEqual(provider.getCommandById(test.id)!.name, 'Build');
+        });
+
+        test('fails for a missing source or target folder', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await assert.rejects(
+                provider.rename(toUri('Missing.cmd'), toUri('Other.cmd'), { overwrite: false }),
+                fileSystemError('FileNotFound')
+            );
+            await assert.rejects(
+                provider.rename(provider.getCommandUri(item.id)!, toUri('Nope/Build.cmd'), { overwrite: false }),
+                fileSystemError('FileNotFound')
+            );
+        });
+
+        test('moves a folder with everything in it', async () => {
+            const item = await provider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes/Debug' });
+            await provider.rename(toUri('Kubernetes'), toUri('K8s'), { overwrite: false });
+
+            assert.deepStrictEqual(provider.getAllFolders(), ['K8s', 'K8s/Debug']);
+            assert.strictEqual(provider.getCommandById(item.id)!.folder, 'K8s/Debug');
+            await assert.rejects(
+                provider.rename(toUri('K8s'), toUri('K8s/Debug/Inner'), { overwrite: false }),
+                fileSystemError('NoPermissions')
+            );
+        });
+    });
+
+    suite('delete', () => {
+        test('moves a command to Recently Deleted, from where it can be restored', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make', folder: 'Tools' });
+            await provider.delete(provider.getCommandUri(item.id)!, { recursive: false });
+
+            assert.strictEqual(provider.getCommandById(item.id), undefined);
+            assert.deepStrictEqual(provider.getDeletedCommands().map(entry => entry.item.id), [item.id]);
+
+            await provider.restoreDeleted(item.id);
+            assert.deepStrictEqual(provider.getCommandById(item.id), item);
+            assert.strictEqual(provider.getDeletedCommands().length, 0);
+        });
+
+        test('does not put moved commands in Recently Deleted', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.createDirectory(toUri('Tools'));
+            await provider.rename(provider.getCommandUri(item.id)!, toUri('Tools/Build.cmd'), { overwrite: false });
+
+            assert.strictEqual(provider.getDeletedCommands().length, 0);
+        });
+
+        test('refuses a non-empty folder unless recursive', async () => {
+            await provider.addCommandItem({ name: 'Build', command: 'make', folder: 'Tools' });
+            await assert.rejects(provider.delete(toUri('Tools'), { recursive: false }), fileSystemError('NoPermissions'));
+
+            await provider.delete(toUri('Tools'), { recursive: true });
+            assert.deepStrictEqual(provider.getAllFolders(), []);
+            assert.strictEqual(provider.getAllCommandItems().length, 0);
+        });
+
+        test('fails for a missing file', async () => {
+            await assert.rejects(provider.delete(toUri('Missing.cmd'), { recursive: false }), fileSystemError('FileNotFound'));
+        });
+    });
+
+    suite('stat and readDirectory', () => {
+        test('lists folders and commands', async () => {
+            await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes' });
+
+            assert.deepStrictEqual(await provider.readDirectory(toUri('')), [
+                ['Kubernetes', vscode.FileType.Directory],
+                ['Build.cmd', vscode.FileType.File]
+            ]);
+            assert.deepStrictEqual(await provider.readDirectory(toUri('Kubernetes')), [['Logs.cmd', vscode.FileType.File]]);
+            assert.strictEqual((await provider.stat(toUri('Kubernetes'))).type, vscode.FileType.Directory);
+            assert.strictEqual((await provider.stat(toUri('Build.cmd'))).type, vscode.FileType.File);
+        });
+
+        test('fails for missing paths and unknown scopes', async () => {
+            assert.throws(() => provider.stat(toUri('Missing.cmd')), fileSystemError('FileNotFound'));
+            assert.throws(() => provider.readFile(toUri('Missing.cmd')), fileSystemError('FileNotFound'));
+            assert.throws(() => provider.readDirectory(toUri('Missing')), fileSystemError('FileNotFound'));
+            assert.throws(() => provider.readFile(toUri('Build.cmd', 'workspace-9')), fileSystemError('FileNotFound'));
+        });
+
+        test('resolves a command by its ID after a rename', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            const uri = provider.getCommandUri(item.id)!;
+            await provider.updateCommandItem(item.id, USER_SCOPE, { name: 'Compile' });
+
+            assert.match(await read(provider, uri), /^name: Compile$/m);
+        });
+    });
+
+    suite('versions', () => {
+        test('keeps the previous content on every edit', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.writeFile(provider.getCommandUri(item.id)!, text('make all'), { create: false, overwrite: true });
+            await provider.writeFile(provider.getCommandUri(item.id)!, text('make -j8 all'), { create: false, overwrite: true });
+
+            assert.deepStrictEqual(provider.getVersions(item.id).map(version => [version.version, version.item.command]), [[1, 'make'], [2, 'make all']]);
+            assert.match(await read(provider, provider.getVersionUri(item.id, USER_SCOPE, 1)!), /^make$/m);
+        });
+
+        test('serves versions read-only', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.updateCommandItem(item.id, USER_SCOPE, { command: 'make all' });
+
+            await assert.rejects(
+                provider.writeFile(provider.getVersionUri(item.id, USER_SCOPE, 1)!, text('rm -rf /'), { create: false, overwrite: true }),
+                fileSystemError('NoPermissions')
+            );
+            assert.throws(() => provider.readFile(provider.getVersionUri(item.id, USER_SCOPE, 5)!), fileSystemError('FileNotFound'));
+        });
+
+        test('puts commands back into an earlier state', async () => {
+            const item = await provider.addCommandItem({ name: 'Build', command: 'make' });
+            const other = await provider.addCommandItem({ name: 'Test', command: 'make test' });
+            await provider.updateCommandItem(item.id, USER_SCOPE, { command: 'make all' });
+
+            await provider.restoreCommands(USER_SCOPE, [{ id: item.id, item }, { id: other.id }]);
+            assert.deepStrictEqual(provider.getCommandById(item.id), item);
+            assert.strictEqual(provider.getCommandById(other.id), undefined);
+        });
+    });
+
+    suite('persistence', () => {
+        test('migrates commands saved without IDs', async () => {
+            await globalState.update('customCommands', [{ name: 'Build', command: 'make' }]);
+            await globalState.update('customCommandsSchemaVersion', 1);
+
+            const legacy = new CommandFileSystemProvider(createContext(globalState));
+            try {
+                const [item] = legacy.getAllCommandItems();
+                assert.ok(item.id);
+                assert.strictEqual(typeof item.createdAt, 'number');
+                assert.strictEqual(legacy.getCommandUri(item.id)!.path, '/Build.cmd');
+            } finally {
+                legacy.dispose();
+            }
+        });
+
+        test('merges saves of two windows instead of overwriting', async () => {
+            const otherWindow = new CommandFileSystemProvider(createContext(globalState));
+            try {
+                await provider.addCommandItem({ name: 'Build', command: 'make' });
+                await otherWindow.addCommandItem({ name: 'Test', command: 'make test' });
+
+                const reloaded = new CommandFileSystemProvider(createContext(globalState));
+                assert.deepStrictEqual(reloaded.getAllCommandItems().map(item => item.name).sort(), ['Build', 'Test']);
+                reloaded.dispose();
+            } finally {
+                otherWindow.dispose();
+            }
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CommandFileSystemProvider } from '../commandFs';
+import { CommandStatusDecorations, formatRunStats, formatTimeAgo, getCommandStatus, groupCommands, ScopedCommand } from '../commandInsights';
+import { CommandUsage, RunStats } from '../commandUsage';
+import { createContext, InMemoryMemento } from './fakes';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 5, 1);
+const command = (id: string, createdAt: number = now - DAY): ScopedCommand => ({
+    item: { id, name: id, command: `echo ${id}`, createdAt, modifiedAt: createdAt },
+    scopeId: ''
+});
+const names = (commands: ScopedCommand[]) => commands.map(({ item }) => item.name);
+
+suite('Command insights', () => {
+    test('describes run stats', () => {
+        assert.strictEqual(formatRunStats({ runCount: 12, lastRunAt: now - 3 * DAY }, now), '12 runs, 3 days ago');
+        assert.strictEqual(formatRunStats({ runCount: 1, lastRunAt: now - 1000, lastExitCode: 2 }, now), '1 run, just now, exit 2');
+        assert.strictEqual(formatTimeAgo(now - 90 * 60 * 1000, now), '1 hour ago');
+        assert.strictEqual(formatTimeAgo(now - 400 * DAY, now), '1 year ago');
+    });
+
+    test('marks failed and stale commands', () => {
+        const { item } = command('build');
+        assert.strictEqual(getCommandStatus(item, { runCount: 1, lastRunAt: now, lastExitCode: 1 }, now), 'failed');
+        assert.strictEqual(getCommandStatus(item, { runCount: 1, lastRunAt: now, lastExitCode: 0 }, now), undefined);
+        assert.strictEqual(getCommandStatus(item, { runCount: 5, lastRunAt: now - 91 * DAY }, now), 'stale');
+        assert.strictEqual(getCommandStatus({ ...item, createdAt: now - 100 * DAY }, undefined, now), 'stale'); // Never run
+        assert.strictEqual(getCommandStatus(item, undefined, now), undefined);
+    });
+
+    test('groups commands into most used, recently failing, not run recently and never used', () => {
+        const stats: { [id: string]: RunStats } = {
+            build: { runCount: 30, lastRunAt: now - DAY },
+            test: { runCount: 12, lastRunAt: now - 2 * DAY, lastExitCode: 1 },
+            deploy: { runCount: 2, lastRunAt: now - 200 * DAY, lastExitCode: 3 },
+            lint: { runCount: 12, lastRunAt: now - 100 * DAY, lastExitCode: 0 }
+        };
+        const commands = ['build', 'test', 'deploy', 'lint', 'docs', 'release'].map(id => command(id, id === 'release' ? now - 300 * DAY : now - DAY));
+
+        const grouped = groupCommands(commands, stats, now, 90);
+        assert.deepStrictEqual(names(grouped.mostUsed), ['build', 'test', 'lint', 'deploy']);
+        assert.deepStrictEqual(names(grouped.recentlyFailing), ['test', 'deploy']);
+        assert.deepStrictEqual(names(grouped.notRunRecently), ['deploy', 'lint']);
+        assert.deepStrictEqual(names(grouped.neverUsed), ['release', 'docs']);
+    });
+
+    test('remembers the result of recorded runs only', async () => {
+        const usage = new CommandUsage(new InMemoryMemento());
+        await usage.recordExitCode('step', 1);
+        assert.strictEqual(usage.getRunStats('step'), undefined);
+
+        await usage.recordRun('build');
+        await usage.recordExitCode('build', 2);
+        assert.strictEqual(usage.getRunStats('build')!.lastExitCode, 2);
+        await usage.recordRun('build'); // A new run forgets the old result until it ends
+        assert.deepStrictEqual(Object.keys(usage.getRunStats('build')!), ['runCount', 'lastRunAt']);
+    });
+
+    test('decorates failed commands', async () => {
+        const fsProvider = new CommandFileSystemProvider(createContext());
+        const usage = new CommandUsage(new InMemoryMemento());
+        const decorations = new CommandStatusDecorations(fsProvider, usage);
+        try {
+            const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+            const uri = fsProvider.getCommandUri(build.id)!;
+            assert.strictEqual(decorations.provideFileDecoration(uri), undefined);
+
+            await usage.recordRun(build.id);
+            await usage.recordExitCode(build.id, 2);
+            const decoration = decorations.provideFileDecoration(uri)!;
+            assert.strictEqual(decoration.badge, '!');
+            assert.strictEqual(decoration.tooltip, 'Last run failed with exit code 2');
+            assert.strictEqual((decoration.color as vscode.ThemeColor).id, 'testing.iconFailed');
+        } finally {
+            decorations.dispose();
+            fsProvider.dispose();
+        }
+    });
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { lintCommand } from '../commandLint';
+
+suite('Command lint', () => {
+    const messages = (command: string) => lintCommand(command).map(problem => problem.message);
+
+    test('reports unclosed quotes', () => {
+        assert.deepStrictEqual(messages('echo "hello'), ['Unclosed double quote.']);
+        assert.deepStrictEqual(lintCommand('ls\necho \'it'), [{ offset: 8, length: 1, message: 'Unclosed single quote.', severity: 'error' }]);
+        assert.deepStrictEqual(messages('echo "it\'s" \'"\' \\\''), []);
+    });
+
+    test('ignores quotes in comments and heredoc bodies', () => {
+        assert.deepStrictEqual(messages('ls # don\'t list hidden files\nmake;# it\'s fine'), []);
+        assert.deepStrictEqual(messages('cat <<EOF\nit\'s "quoted\nEOF\ncat <<-\'END\' > notes.txt\n\tdon\'t\n\tEND\necho done'), []);
+        // After the heredoc, quotes count again
+        assert.deepStrictEqual(messages('cat <<EOF\nit\'s\nEOF\necho "oops'), ['Unclosed double quote.']);
+        assert.deepStrictEqual(messages('cat <<< "it\'s"'), []);
+    });
+
+    test('warns about dangerous commands', () => {
+        assert.deepStrictEqual(messages('sudo rm -rf /'), ['Dangerous command: this recursively deletes the root or home directory.']);
+    });
+});
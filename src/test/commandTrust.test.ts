@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { CommandItem } from '../extension';
+import { CommandTrust } from '../commandTrust';
+import { InMemoryMemento } from './fakes';
+
+suite('CommandTrust', () => {
+    const item: CommandItem = { id: 'clean', name: 'Clean', command: 'rm -rf build', createdAt: 0, modifiedAt: 0 };
+
+    test('needs a new review when a shared command changes what it runs or whether it asks first', async () => {
+        const trust = new CommandTrust(new InMemoryMemento());
+        assert.strictEqual(trust.isTrusted(item, true), false);
+        await trust.markReviewed([item]);
+        assert.strictEqual(trust.isTrusted(item, true), true);
+
+        assert.strictEqual(trust.isTrusted({ ...item, name: 'Clean Up', folder: 'Tools' }, true), true);
+        assert.strictEqual(trust.isTrusted({ ...item, command: 'rm -rf /' }, true), false);
+        assert.strictEqual(trust.isTrusted({ ...item, requiresConfirmation: false }, true), false);
+    });
+
+    test('trusts the user\'s own commands unless they were imported', async () => {
+        const trust = new CommandTrust(new InMemoryMemento());
+        assert.strictEqual(trust.isTrusted(item, false), true);
+        await trust.markImported([item.id]);
+        assert.strictEqual(trust.isTrusted(item, false), false);
+    });
+});
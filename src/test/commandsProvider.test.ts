@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CommandFileSystemProvider, toUri } from '../commandFs';
+import { CommandsProvider } from '../extension';
+import { CommandRunner } from '../commandRunner';
+import { RunHistory } from '../runHistory';
+import { SequenceRunner } from '../sequences';
+import { CommandUsage } from '../commandUsage';
+import { CommandTrust } from '../commandTrust';
+import { UndoStack } from '../commandHistory';
+import { getPlatformLabel } from '../scripts';
+import { createContext, InMemoryMemento } from './fakes';
+
+suite('CommandsProvider', () => {
+    let fsProvider: CommandFileSystemProvider;
+    let runner: CommandRunner;
+    let usage: CommandUsage;
+    let trust: CommandTrust;
+    let provider: CommandsProvider;
+
+    setup(() => {
+        const context = createContext();
+        fsProvider = new CommandFileSystemProvider(context);
+        runner = new CommandRunner(new RunHistory(new InMemoryMemento()));
+        usage = new CommandUsage(new InMemoryMemento());
+        trust = new CommandTrust(new InMemoryMemento());
+        const undoStack = new UndoStack((scopeId, states) => fsProvider.restoreCommands(scopeId, states));
+        provider = new CommandsProvider(context, fsProvider, runner, new SequenceRunner(runner), usage, trust, undoStack);
+    });
+
+    teardown(() => {
+        runner.dispose();
+        fsProvider.dispose();
+    });
+
+    test('lists folders first, then commands', async () => {
+        await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        await fsProvider.addCommandItem({ command: 'git status' });
+        await fsProvider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes' });
+
+        const nodes = await provider.getChildren();
+        assert.deepStrictEqual(nodes.map(node => [node.label, node.contextValue]), [
+            ['Kubernetes', 'folderItem'],
+            ['Build', 'commandItem'],
+            ['git status', 'commandItem']
+        ]);
+        assert.strictEqual(nodes[1].description, 'make'); // The command, next to the name
+        assert.strictEqual(nodes[2].description, undefined); // Unnamed commands show the command as label only
+
+        const [logs] = await provider.getChildren(nodes[0]);
+        assert.strictEqual(logs.label, 'Logs');
+    });
+
+    test('opens the filename of a command, pinned to its ID', async () => {
+        await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        const second = await fsProvider.addCommandItem({ name: 'Build', command: 'make all', folder: 'Tools' });
+        const third = await fsProvider.addCommandItem({ name: 'Build', command: 'make clean', folder: 'Tools' });
+
+        const [tools] = await provider.getChildren();
+        const nodes = await provider.getChildren(tools);
+        assert.deepStrictEqual(nodes.map(node => (node.command!.arguments![0] as vscode.Uri).toString()), [
+            toUri('Tools/Build.cmd', '', second.id).toString(),
+            toUri('Tools/Build-1.cmd', '', third.id).toString()
+        ]);
+    });
+
+    test('shows the steps of a sequence, including missing commands', async () => {
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        await fsProvider.addCommandItem({
+            name: 'Release',
+            command: '',
+            kind: 'sequence',
+            steps: [{ commandId: build.id }, { commandId: 'removed' }]
+        });
+
+        const sequence = (await provider.getChildren()).find(node => node.label === 'Release')!;
+        assert.strictEqual(sequence.contextValue, 'sequenceItem');
+        assert.strictEqual(sequence.description, '2 steps');
+        const steps = await provider.getChildren(sequence);
+        assert.deepStrictEqual(steps.map(step => step.label), ['Build', 'Missing command']);
+    });
+
+    test('adds a Favorites section', async () => {
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make', folder: 'Tools' });
+        await usage.setFavorite([build.id], true);
+
+        const [favorites] = await provider.getChildren();
+        assert.strictEqual(favorites.label, 'Favorites');
+        const [favorite] = await provider.getChildren(favorites);
+        assert.strictEqual(favorite.id, `favorite:command::${build.id}`);
+        assert.strictEqual(favorite.contextValue, 'commandItem.favorite');
+    });
+
+    test('filters by text and tags, hiding folders without matches', async () => {
+        await fsProvider.addCommandItem({ name: 'Build', command: 'make', tags: ['ci'] });
+        await fsProvider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes' });
+        await fsProvider.addCommandItem({ name: 'Lint', command: 'eslint .', folder: 'Tools', tags: ['ci'] });
+
+        provider.setFilter('#ci');
+        const nodes = await provider.getChildren();
+        assert.deepStrictEqual(nodes.map(node => node.label), ['Tools', 'Build']);
+        assert.strictEqual(nodes[0].collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+
+        provider.setFilter('kubectl');
+        assert.deepStrictEqual((await provider.getChildren()).map(node => node.label), ['Kubernetes']);
+    });
+
+    test('shows the variant for this platform, and commands without one as unavailable', async () => {
+        const other = process.platform === 'win32' ? 'linux' : 'win32';
+        await fsProvider.addCommandItem({ name: 'Open', command: 'xdg-open .', platforms: { [process.platform]: { command: 'open-here' } } });
+        const elsewhere = await fsProvider.addCommandItem({ name: 'Elsewhere', command: '', platforms: { [other]: { command: 'start .' } } });
+
+        const nodes = await provider.getChildren();
+        assert.deepStrictEqual(nodes.map(node => [node.label, node.description]), [['Open', 'open-here'], ['Elsewhere', `No variant for ${getPlatformLabel()}`]]);
+        assert.strictEqual((nodes[1].iconPath as vscode.ThemeIcon).id, 'warning');
+
+        // The run stats stay visible next to the warning
+        await usage.recordRun(elsewhere.id);
+        const [, node] = await provider.getChildren();
+        assert.strictEqual(node.description, `1 run, just now · No variant for ${getPlatformLabel()}`);
+    });
+
+    test('shows removed commands under Recently Deleted', async () => {
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        await fsProvider.delete(fsProvider.getCommandUri(build.id)!, { recursive: false });
+
+        const nodes = await provider.getChildren();
+        assert.deepStrictEqual(nodes.map(node => node.label), ['Recently Deleted']);
+        const [deleted] = await provider.getChildren(nodes[0]);
+        assert.strictEqual(deleted.label, 'Build');
+        assert.strictEqual(deleted.contextValue, 'deletedItem');
+    });
+
+    test('keeps a command waiting for a review when it is moved or reconfigured, until its document is saved', async () => {
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        await trust.markImported([build.id]);
+
+        await fsProvider.ensureFolder('Tools');
+        await fsProvider.rename(fsProvider.getCommandUri(build.id)!, toUri('Tools/Build.cmd'), { overwrite: false });
+        await fsProvider.updateCommandItem(build.id, '', { runMode: 'background' });
+        assert.strictEqual(trust.isTrusted(fsProvider.getCommandById(build.id)!, false), false);
+        const [tools] = await provider.getChildren();
+        assert.strictEqual((await provider.getChildren(tools))[0].contextValue, 'commandItem.untrusted');
+
+        await fsProvider.writeFile(fsProvider.getCommandUri(build.id)!, Buffer.from('make all', 'utf8'), { create: false, overwrite: true });
+        await new Promise(resolve => setImmediate(resolve)); // The review is recorded after the save event
+        assert.strictEqual(trust.isTrusted(fsProvider.getCommandById(build.id)!, false), true);
+    });
+
+    test('shows run stats and colors commands whose last run failed', async () => {
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+        await usage.recordRun(build.id);
+        await usage.recordExitCode(build.id, 2);
+
+        const [node] = await provider.getChildren();
+        assert.strictEqual(node.description, 'make · 1 run, just now, exit 2');
+        assert.strictEqual(((node.iconPath as vscode.ThemeIcon).color as vscode.ThemeColor).id, 'testing.iconFailed');
+    });
+
+    test('archives commands into the Archive folder of their scope, keeping their folder', async () => {
+        const logs = await fsProvider.addCommandItem({ name: 'Logs', command: 'kubectl logs', folder: 'Kubernetes' });
+        const build = await fsProvider.addCommandItem({ name: 'Build', command: 'make' });
+
+        await provider.archiveCommands([{ item: logs, scopeId: '' }, { item: build, scopeId: '' }]);
+        assert.strictEqual(fsProvider.getCommandById(logs.id)!.folder, 'Archive/Kubernetes');
+        assert.strictEqual(fsProvider.getCommandById(build.id)!.folder, 'Archive');
+    });
+});
@@ -1,15 +1,50 @@
-// import * as assert from 'assert';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CommandsViewerApi } from '../api';
 
-// // You can import and use all API from the 'vscode' module
-// // as well as import your extension to test it
-// import * as vscode from 'vscode';
-// // import * as myExtension from '../../extension';
+suite('Extension', () => {
+    let api: CommandsViewerApi;
 
-// suite('Extension Test Suite', () => {
-// 	vscode.window.showInformationMessage('Start all tests.');
+    suiteSetup(async () => {
+        const extension = vscode.extensions.getExtension<CommandsViewerApi>('cmdvwr.commands-viewer');
+        assert.ok(extension, 'The extension is installed');
+        api = await extension.activate();
+    });
 
-// 	test('Sample test', () => {
-// 		assert.strictEqual(-1, [1, 2, 3].indexOf(5));
-// 		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
-// 	});
-// });
+    test('registers its commands', async () => {
+        const commands = await vscode.commands.getCommands(true);
+        for (const command of ['commandsViewer.createNewCommand', 'commandsViewer.quickRun', 'commandsViewer.run', 'commandsViewer.undo']) {
+            assert.ok(commands.includes(command), command);
+        }
+    });
+
+    test('adds, updates and removes commands through the API', async () => {
+        let changes = 0;
+        const listener = api.onDidChange(() => changes++);
+        try {
+            const added = await api.add({ name: 'API test', command: 'echo test' });
+            assert.strictEqual(api.get(added.id)?.command, 'echo test');
+
+            await api.update(added.id, { command: 'echo updated' });
+            assert.strictEqual(api.list().find(item => item.id === added.id)?.command, 'echo updated');
+
+            await api.remove(added.id);
+            assert.strictEqual(api.get(added.id), undefined);
+            assert.ok(changes > 0);
+            await assert.rejects(api.update(added.id, { command: 'echo again' }), /No saved command/);
+        } finally {
+            listener.dispose();
+        }
+    });
+
+    test('opens saved commands through the commandfile: scheme', async () => {
+        const added = await api.add({ name: 'Scheme test', command: 'echo scheme' });
+        try {
+            const uri = vscode.Uri.from({ scheme: 'commandfile', path: '/Scheme test.cmd', query: `id=${added.id}` });
+            const document = await vscode.workspace.openTextDocument(uri);
+            assert.match(document.getText(), /^echo scheme$/m);
+        } finally {
+            await api.remove(added.id);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+/**
+ * An in-memory stand-in for `globalState` and `workspaceState`. Values are copied as JSON,
+ * like VS Code stores them, so tests notice when stored objects are changed in place.
+ */
+export class InMemoryMemento implements vscode.Memento {
+    private _values = new Map<string, string>();
+
+    keys(): readonly string[] {
+        return Array.from(this._values.keys());
+    }
+
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = this._values.get(key);
+        return value === undefined ? defaultValue : JSON.parse(value);
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this._values.delete(key);
+        } else {
+            this._values.set(key, JSON.stringify(value));
+        }
+    }
+
+    setKeysForSync(keys: readonly string[]): void {
+        // Nothing to sync in tests
+    }
+}
+
+/**
+ * The parts of an extension context the providers use, backed by in-memory state.
+ */
+export function createContext(globalState: InMemoryMemento = new InMemoryMemento()): vscode.ExtensionContext {
+    return {
+        globalState,
+        workspaceState: new InMemoryMemento(),
+        subscriptions: []
+    } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * Passes for a `vscode.FileSystemError` with the given code, e.g. "FileNotFound", for `assert.throws` and `assert.rejects`.
+ */
+export function fileSystemError(code: string): (error: unknown) => boolean {
+    return error => error instanceof vscode.FileSystemError && error.code === code;
+}
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import { CommandFileSystemProvider, USER_SCOPE } from '../commandFs';
+import { CommandItem } from '../extension';
+import { parseCommandsFile, SchemaError } from '../commandSchema';
+import { applyImport, classifyImport, ImportCandidate, toCandidates } from '../importExport';
+import { mergeTasksJson, toShellScript, toTasks } from '../exportFormats';
+import { parseTasksJson } from '../importSources';
+import { createContext } from './fakes';
+
+const candidate = (item: ImportCandidate['item'], sourceId?: string): ImportCandidate => ({ item, sourceId });
+// Parsed JSON has objects without a prototype, and unset fields as undefined; compare what would be stored
+const plain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+suite('Import and export', () => {
+    let provider: CommandFileSystemProvider;
+
+    setup(() => {
+        provider = new CommandFileSystemProvider(createContext());
+    });
+
+    teardown(() => provider.dispose());
+
+    suite('parseCommandsFile', () => {
+        test('reads an exported array and a commands file with folders', () => {
+            assert.deepStrictEqual(plain(parseCommandsFile('[{ "name": "Build", "command": "make" }]').commands), [{ name: 'Build', command: 'make' }]);
+
+            const file = parseCommandsFile('{\n  // Shared commands\n  "version": 2,\n  "folders": ["Tools"],\n  "commands": [{ "command": "make", "folder": "Tools", }],\n}');
+            assert.strictEqual(file.version, 2);
+            assert.deepStrictEqual(file.folders, ['Tools']);
+            assert.strictEqual(file.commands[0].folder, 'Tools');
+        });
+
+        test('reports invalid fields with their line', () => {
+            const check = (text: string, message: RegExp, line: number) => assert.throws(
+                () => parseCommandsFile(text),
+                (error: unknown) => error instanceof SchemaError && error.line === line && message.test(error.message)
+            );
+            check('[\n  { "name": "Build" }\n]', /needs a "command" string/, 2);
+            check('[\n  { "command": "make",\n    "tags": "ci" }\n]', /"tags" must be an array of strings/, 3);
+            check('[\n  { "command": "make", "runMode": "later" }\n]', /Unknown "runMode"/, 2);
+            check('{ "commands": 3 }', /Expected an array of commands/, 1);
+            check('[\n  { "command": "make" \n', /Line 3/, 3);
+        });
+    });
+
+    suite('classifyImport', () => {
+        test('tells new, identical and conflicting commands apart by name and folder', async () => {
+            await provider.addCommandItem({ name: 'Build', command: 'make' });
+            await provider.addCommandItem({ name: 'Test', command: 'make test', folder: 'Tools' });
+
+            const entries = classifyImport([
+                candidate({ name: 'Build', command: 'make' }),
+                candidate({ name: 'Build', command: 'make all' }),
+                candidate({ name: 'Test', command: 'npm test', folder: 'Tools' }),
+                candidate({ name: 'Test', command: 'npm test' })
+            ], provider.getAllCommandItems());
+
+            assert.deepStrictEqual(entries.map(entry => [entry.status, entry.action]), [
+                ['identical', 'skip'],
+                ['conflict', 'skip'],
+                ['conflict', 'skip'],
+                ['new', 'add']
+            ]);
+            assert.strictEqual(entries[1].existing!.command, 'make');
+        });
+    });
+
+    suite('applyImport', () => {
+        test('adds, skips, overwrites, keeps both and renames', async () => {
+            const build = await provider.addCommandItem({ name: 'Build', command: 'make', folder: 'Tools' });
+            await provider.addCommandItem({ name: 'Test', command: 'make test' });
+            await provider.addCommandItem({ name: 'Lint', command: 'make lint' });
+
+            const entries = classifyImport([
+                candidate({ name: 'Build', command: 'make all', folder: 'Tools' }),
+                candidate({ name: 'Test', command: 'npm test' }),
+                candidate({ name: 'Lint', command: 'eslint .' }),
+                candidate({ name: 'Lint', command: 'eslint --fix .' }),
+                candidate({ name: 'Deploy', command: './deploy.sh' })
+            ], provider.getAllCommandItems());
+            entries[0].action = 'overwrite';
+            entries[2].action = 'keepBoth';
+            entries[3].action = 'rename';
+            entries[3].newName = 'Lint (fix)';
+
+            const result = await applyImport(provider, USER_SCOPE, entries);
+            assert.deepStrictEqual([result.added, result.overwritten, result.skipped], [3, 1, 1]);
+            assert.strictEqual(result.ids[0], build.id); // Overwriting keeps the ID...
+            assert.strictEqual(provider.getCommandById(build.id)!.command, 'make all');
+            assert.strictEqual(provider.getCommandById(build.id)!.folder, 'Tools'); // ...and the folder
+            assert.deepStrictEqual(
+                provider.getAllCommandItems().map(item => `${item.name}: ${item.command}`).sort(),
+                ['Build: make all', 'Deploy: ./deploy.sh', 'Lint (fix): eslint --fix .', 'Lint: eslint .', 'Lint: make lint', 'Test: make test']
+            );
+        });
+
+        test('reconnects the steps of imported sequences', async () => {
+            const entries = classifyImport([
+                candidate({ name: 'Release', command: '', kind: 'sequence', steps: [{ commandId: 'old-build' }, { commandId: 'old-test', continueOnError: true }] }),
+                candidate({ name: 'Build', command: 'make' }, 'old-build'),
+                candidate({ name: 'Test', command: 'make test' }, 'old-test')
+            ], []);
+
+            await applyImport(provider, USER_SCOPE, entries);
+            const items = provider.getAllCommandItems();
+            const byName = (name: string) => items.find(item => item.name === name)!;
+            assert.deepStrictEqual(byName('Release').steps, [{ commandId: byName('Build').id }, { commandId: byName('Test').id, continueOnError: true }]);
+        });
+    });
+
+    suite('exports', () => {
+        const script = 'import sys\nprint("$HOME", sys.argv)';
+
+        test('passes scripts to their interpreter in a shell script', async () => {
+            const greet = await provider.addCommandItem({ name: 'Greet', command: 'print("hi ${name}", "$HOME")\nEOF', interpreter: 'python3' });
+            const check = await provider.addCommandItem({ name: 'Check', command: script, interpreter: 'python3 -u' });
+            const sign = await provider.addCommandItem({ name: 'Sign', command: '', platforms: { darwin: { command: 'codesign app' } } });
+
+            const text = toShellScript([greet, check, sign]);
+            assert.ok(text.includes("    python3 -u - <<'EOF'\nimport sys\nprint(\"$HOME\", sys.argv)\nEOF\n    )"), text);
+            // With a placeholder the heredoc expands, so everything else is escaped
+            assert.ok(text.includes('    python3 - <<EOF_2\nprint("hi ${arg_name}", "\\$HOME")\nEOF\nEOF_2\n'), text);
+            assert.ok(text.includes('cmd_sign() {\n    echo "\\"Sign\\" has no Linux variant." >&2\n    return 1\n}'), text);
+            assert.strictEqual(spawnSync('bash', ['-n'], { input: text }).status, 0);
+        });
+
+        test('passes scripts to their interpreter in tasks', async () => {
+            const check = await provider.addCommandItem({ name: 'Check', command: script, interpreter: 'python3 -u' });
+            const sign = await provider.addCommandItem({
+                name: 'Sign',
+                command: '',
+                platforms: { darwin: { command: 'codesign app' }, win32: { command: 'Write-Output ${file}', interpreter: 'pwsh' } }
+            });
+
+            const [checkTask, signTask] = plain(toTasks([check, sign]).tasks);
+            assert.strictEqual(checkTask.command, 'python3');
+            assert.deepStrictEqual(checkTask.args, ['-u', '-c', { value: script, quoting: 'strong' }]);
+            assert.ok(!('command' in signTask));
+            assert.deepStrictEqual(signTask.osx, { command: 'codesign app' });
+            assert.deepStrictEqual(signTask.windows, { command: 'pwsh', args: ['-Command', { value: 'Write-Output ${file}', quoting: 'strong' }] });
+        });
+    });
+
+    suite('round-trips', () => {
+        test('imports an exported JSON file as it was', async () => {
+            const build = await provider.addCommandItem({
+                name: 'Build',
+                description: 'Compiles everything',
+                command: 'make ${target:all}',
+                folder: 'Tools',
+                tags: ['ci'],
+                cwd: 'app',
+                env: { CC: 'clang' },
+                shell: '/bin/zsh',
+                shellArgs: ['-l'],
+                runMode: 'background',
+                requiresConfirmation: true
+            });
+            await provider.addCommandItem({ name: 'Release', command: '', kind: 'sequence', steps: [{ commandId: build.id, parallel: false }] });
+            const exported = JSON.stringify(provider.getAllCommandItems(), null, 2); // As written by "Export Commands..."
+
+            const target = new CommandFileSystemProvider(createContext());
+            try {
+                const { candidates } = toCandidates(parseCommandsFile(exported));
+                await applyImport(target, USER_SCOPE, classifyImport(candidates, []));
+
+                const strip = ({ id, createdAt, modifiedAt, steps, ...item }: CommandItem) => item;
+                const imported = target.getAllCommandItems();
+                assert.deepStrictEqual(plain(imported.map(strip)), plain(provider.getAllCommandItems().map(strip)));
+                const importedBuild = imported.find(item => item.name === 'Build')!;
+                assert.notStrictEqual(importedBuild.id, build.id);
+                assert.strictEqual(imported.find(item => item.name === 'Release')!.steps![0].commandId, importedBuild.id);
+            } finally {
+                target.dispose();
+            }
+        });
+
+        test('reads exported tasks back as commands', async () => {
+            const build = await provider.addCommandItem({ name: 'Build', command: 'make', cwd: 'app', env: { CC: 'clang' } });
+            const test = await provider.addCommandItem({ name: 'Test', command: 'npm test -- ${pattern}' });
+
+            const text = mergeTasksJson('', toTasks([build, test]));
+            assert.deepStrictEqual(plain(parseTasksJson(text)), [
+                { name: 'Build', command: 'make', cwd: 'app', env: { CC: 'clang' } },
+                { name: 'Test', command: 'npm test -- ${pattern}' }
+            ]);
+        });
+
+        test('keeps the other tasks and comments of an existing tasks.json', async () => {
+            const build = await provider.addCommandItem({ name: 'Build', command: 'make all' });
+            const existing = '{\n    // Project tasks\n    "version": "2.0.0",\n    "tasks": [\n        { "label": "Watch", "type": "shell", "command": "tsc -w" },\n        { "label": "Build", "type": "shell", "command": "make" }\n    ]\n}\n';
+
+            const text = mergeTasksJson(existing, toTasks([build]));
+            assert.match(text, /\/\/ Project tasks/);
+            assert.deepStrictEqual(parseTasksJson(text).map(item => `${item.name}: ${item.command}`), ['Watch: tsc -w', 'Build: make all']);
+        });
+    });
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { parsePlaceholders, replacePlaceholders } from '../placeholders';
+
+suite('Placeholders', () => {
+    test('finds prompted variables, defaults, choices and built-ins', () => {
+        const placeholders = parsePlaceholders('git checkout -b ${branch:main} && npm run ${script|build, test} -- ${workspaceFolder} ${env:HOME}');
+        assert.deepStrictEqual(placeholders.map(({ name, defaultValue, choices, argument, builtin }) => ({ name, defaultValue, choices, argument, builtin })), [
+            { name: 'branch', defaultValue: 'main', choices: undefined, argument: undefined, builtin: false },
+            { name: 'script', defaultValue: undefined, choices: ['build', 'test'], argument: undefined, builtin: false },
+            { name: 'workspaceFolder', defaultValue: undefined, choices: undefined, argument: undefined, builtin: true },
+            { name: 'env', defaultValue: undefined, choices: undefined, argument: 'HOME', builtin: true }
+        ]);
+        assert.strictEqual(placeholders[0].offset, 16);
+        assert.strictEqual(placeholders[0].raw, '${branch:main}');
+    });
+
+    test('leaves shell and script code in braces alone', () => {
+        const code = 'cd ${HOME} && echo ${name:-x} ${count:=1} ${#files[@]} ${file%.txt} ${!ref} && node -e "console.log(`${a + b}`)"';
+        assert.deepStrictEqual(parsePlaceholders(code), []);
+        assert.strictEqual(replacePlaceholders(code, () => 'replaced'), code);
+    });
+
+    test('replaces placeholders and unescapes escaped ones', () => {
+        const replaced = replacePlaceholders('echo ${greeting} \\${literal} ${PATH} ${pathSeparator}', placeholder => `<${placeholder.name}>`);
+        assert.strictEqual(replaced, 'echo <greeting> ${literal} ${PATH} <pathSeparator>');
+    });
+});
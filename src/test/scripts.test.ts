@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { formatCommandLine, getScriptCommandLine, selectVariant, writeScriptFile } from '../scripts';
+
+suite('Scripts', () => {
+    test('picks the variant for a platform, or else the command itself', () => {
+        const item = { command: 'ls', interpreter: 'bash', platforms: { win32: { command: 'dir', interpreter: 'cmd' } } };
+        assert.deepStrictEqual(selectVariant(item, 'win32'), { command: 'dir', interpreter: 'cmd' });
+        assert.deepStrictEqual(selectVariant(item, 'darwin'), { command: 'ls', interpreter: 'bash' });
+        assert.strictEqual(selectVariant({ command: '', platforms: { win32: { command: 'dir' } } }, 'linux'), undefined);
+    });
+
+    test('runs script files with their interpreter', () => {
+        assert.deepStrictEqual(getScriptCommandLine('python3 -u', '/tmp/a.py'), ['python3', '-u', '/tmp/a.py']);
+        assert.deepStrictEqual(getScriptCommandLine('"C:\\Program Files\\PowerShell\\7\\pwsh.exe"', 'a.ps1'), ['C:\\Program Files\\PowerShell\\7\\pwsh.exe', '-File', 'a.ps1']);
+        assert.deepStrictEqual(getScriptCommandLine('cmd', 'a.cmd'), ['cmd', '/c', 'a.cmd']);
+    });
+
+    test('quotes command lines for the terminal\'s shell', () => {
+        const commandLine = ['python3', '/tmp/my scripts/it\'s.py'];
+        assert.strictEqual(formatCommandLine(commandLine, '/bin/bash'), `python3 '/tmp/my scripts/it'\\''s.py'`);
+        assert.strictEqual(formatCommandLine(commandLine, 'pwsh.exe'), `& python3 '/tmp/my scripts/it''s.py'`);
+        assert.strictEqual(formatCommandLine(['cmd', '/c', 'C:\\Temp Files\\a.cmd'], 'C:\\Windows\\System32\\cmd.exe'), 'cmd /c "C:\\Temp Files\\a.cmd"');
+    });
+
+    test('writes scripts with the extension their interpreter expects', async () => {
+        const python = await writeScriptFile('print("hi")', 'python3');
+        const batch = await writeScriptFile('echo one\necho two', 'cmd');
+        try {
+            assert.match(python, /\.py$/);
+            assert.strictEqual(fs.readFileSync(python, 'utf8'), 'print("hi")\n');
+            assert.strictEqual(fs.readFileSync(batch, 'utf8'), 'echo one\r\necho two\r\n');
+        } finally {
+            fs.unlinkSync(python);
+            fs.unlinkSync(batch);
+        }
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { CommandRunner, RunRequest } from '../commandRunner';
+import { RunHistory } from '../runHistory';
+import { findParallelDuplicate, SequenceRunner } from '../sequences';
+import { InMemoryMemento } from './fakes';
+
+suite('Sequences', () => {
+    let runner: CommandRunner;
+    let sequenceRunner: SequenceRunner;
+
+    setup(() => {
+        runner = new CommandRunner(new RunHistory(new InMemoryMemento()));
+        sequenceRunner = new SequenceRunner(runner);
+    });
+
+    teardown(() => {
+        sequenceRunner.dispose();
+        runner.dispose();
+    });
+
+    test('finds steps that run the same command in parallel', () => {
+        assert.strictEqual(findParallelDuplicate([{ commandId: 'a' }, { commandId: 'a' }, { commandId: 'b', parallel: true }]), undefined);
+        assert.strictEqual(findParallelDuplicate([{ commandId: 'a' }, { commandId: 'b', parallel: true }, { commandId: 'a', parallel: true }]), 2);
+    });
+
+    test('reports a step whose command is already running instead of starting it again', async () => {
+        const request: RunRequest = { commandId: 'wait', label: 'Wait', command: 'node -e "setTimeout(() => {}, 200)"', values: {}, mode: 'background' };
+        const passed = await sequenceRunner.run('sequence', 'Sequence', [
+            { step: { commandId: 'wait', continueOnError: true }, request },
+            { step: { commandId: 'wait', parallel: true, continueOnError: true }, request }
+        ]);
+
+        assert.strictEqual(passed, true);
+        assert.deepStrictEqual(sequenceRunner.getProgress('sequence'), [
+            { status: 'passed', exitCode: 0 },
+            { status: 'failed', reason: 'already running' }
+        ]);
+    });
+});
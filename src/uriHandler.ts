@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { CommandsProvider } from './extension';
+
+/**
+ * Handles links to the extension, e.g. from a wiki page:
+ * - `vscode://cmdvwr.commands-viewer/run?name=Build` (or `?id=...`) runs a saved command after asking.
+ * - `vscode://cmdvwr.commands-viewer/import?url=https://...` imports a commands file after asking and showing the preview.
+ */
+export class CommandsUriHandler implements vscode.UriHandler {
+    private _commandsProvider: CommandsProvider;
+
+    constructor(commandsProvider: CommandsProvider) {
+        this._commandsProvider = commandsProvider;
+    }
+
+    async handleUri(uri: vscode.Uri): Promise<void> {
+        const query = new URLSearchParams(uri.query);
+        switch (uri.path) {
+            case '/run': {
+                const id = query.get('id') ?? undefined;
+                const name = query.get('name') ?? undefined;
+                if (!id && !name) {
+                    vscode.window.showErrorMessage('Failed to run command: the link needs an "id" or "name" parameter.');
+                    return;
+                }
+                await this._commandsProvider.runByReference({ id, name }, true);
+                return;
+            }
+            case '/import': {
+                const url = query.get('url');
+                if (!url) {
+                    vscode.window.showErrorMessage('Failed to import commands: the link needs a "url" parameter.');
+                    return;
+                }
+                await this._commandsProvider.importFromUrl(url);
+                return;
+            }
+            default:
+                vscode.window.showErrorMessage(`Unknown Commands Viewer link "${uri.path}". Expected /run or /import.`);
+        }
+    }
+}